@@ -9,12 +9,13 @@ const pkg = require('./package.json')
 
 const libraryName = 'lab-gui-websocket'
 
-export default {
-  input: `src/${libraryName}.ts`,
-  output: [
-    { file: pkg.main, name: camelCase(libraryName), format: 'umd', sourcemap: true },
-    { file: pkg.module, format: 'es', sourcemap: true }
-  ],
+// the mock server and the replay transport are a separate entry, so they stay out of the main bundle
+const testingName = 'testing'
+const testing = pkg.exports[`./${testingName}`]
+
+const bundle = (input, output) => ({
+  input,
+  output,
   // Indicate here external modules you don't wanna include in your bundle (i.e.: 'lodash')
   external: [],
   watch: {
@@ -35,4 +36,23 @@ export default {
     // Resolve source maps to the original source
     sourceMaps()
   ]
-}
+})
+
+export default [
+  bundle(`src/${libraryName}.ts`, [
+    { file: pkg.main, name: camelCase(libraryName), format: 'umd', sourcemap: true },
+    { file: pkg.module, format: 'es', sourcemap: true },
+    // commonjs build for node, which has to be used with websocketClass (e.g. of the 'ws' package)
+    { file: pkg.exports['.'].node, format: 'cjs', sourcemap: true }
+  ]),
+  bundle(`src/${testingName}.ts`, [
+    {
+      file: testing.default,
+      name: camelCase(`${libraryName}-${testingName}`),
+      format: 'umd',
+      sourcemap: true
+    },
+    { file: testing.import, format: 'es', sourcemap: true },
+    { file: testing.node, format: 'cjs', sourcemap: true }
+  ])
+]
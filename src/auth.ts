@@ -0,0 +1,109 @@
+/**
+ * Authentication of the connection with a token, which is fetched before each connection
+ * attempt, so a reconnect never reuses an expired token. The token is sent as the first
+ * message or as a subprotocol, and the connection only counts as open once the server
+ * accepted it.
+ */
+
+import { CloseRule } from './close-policy'
+
+export interface AuthOptions {
+  /**
+   * Returns the token for the next connection attempt. `refresh` is true after the server
+   * rejected the last token, so a new one has to be fetched instead of a cached one.
+   */
+  getToken: (refresh: boolean) => string | Promise<string>
+  /** Send the token as the first message ('message', default) or as a subprotocol ('protocol'). */
+  transport?: 'message' | 'protocol'
+  /** The status of the message carrying the token, default 'auth'. */
+  authStatus?: string
+  /** The status of the reply, with which the server accepts the token, default 'auth-ok'. */
+  okStatus?: string
+  /** The status of the reply, with which the server rejects the token, default 'auth-rejected'. */
+  rejectedStatus?: string
+  /** The close codes, with which the server rejects the token, default [4001, 4003]. */
+  rejectedCodes?: number[]
+  /** Prefix of the subprotocol carrying the token, default 'bearer.'. */
+  protocolPrefix?: string
+  /** The number of milliseconds to wait for the server to accept the token, default 5000. */
+  timeout?: number
+}
+
+export class Authenticator {
+  // whether the next token has to be a new one
+  private refreshNext: boolean = false
+  // whether the last token was fetched after a rejection
+  private refreshed: boolean = false
+
+  settings: Required<AuthOptions>
+
+  constructor(options: AuthOptions) {
+    this.settings = {
+      transport: 'message',
+      authStatus: 'auth',
+      okStatus: 'auth-ok',
+      rejectedStatus: 'auth-rejected',
+      rejectedCodes: [4001, 4003],
+      protocolPrefix: 'bearer.',
+      timeout: 5000,
+      ...options
+    }
+  }
+
+  /**
+   * Fetches the token for a connection attempt, a new one if the last one was rejected
+   */
+  public token(): Promise<string> {
+    const refresh = this.refreshNext
+    this.refreshNext = false
+    this.refreshed = refresh
+    return Promise.resolve().then(() => this.settings.getToken(refresh))
+  }
+
+  /**
+   * The subprotocols of a connection attempt, including the token if it is sent as one
+   *
+   * @param protocols the configured subprotocols
+   * @param token the token of the connection attempt
+   */
+  public protocols(protocols: string[], token: string): string[] {
+    return this.settings.transport === 'protocol'
+      ? protocols.concat(this.settings.protocolPrefix + token)
+      : protocols
+  }
+
+  /**
+   * The message carrying the token, null if the token is sent as a subprotocol
+   *
+   * @param token the token of the connection attempt
+   */
+  public message(token: string): { status: string; data: { token: string } } | null {
+    return this.settings.transport === 'message'
+      ? { status: this.settings.authStatus, data: { token } }
+      : null
+  }
+
+  /**
+   * Whether the server rejects the token with this close code
+   */
+  public rejects(code: number | undefined): boolean {
+    return code !== undefined && this.settings.rejectedCodes.indexOf(code) !== -1
+  }
+
+  /**
+   * Records, that the server accepted the token.
+   */
+  public accepted(): void {
+    this.refreshed = false
+  }
+
+  /**
+   * Records, that the server rejected the token, and returns how to go on:
+   * reconnect right away with a new token, or stop if a new token got rejected as well.
+   */
+  public rejected(): CloseRule {
+    const action = this.refreshed ? 'stop' : 0
+    this.refreshNext = true
+    return { name: this.refreshed ? 'auth-rejected' : 'auth-refresh', action }
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Logical channels multiplexed over one LabGuiWebsocket connection.
+ * Messages of a channel carry its name in the `channel` field, in both directions.
+ */
+
+import { NotConnectedError } from './errors'
+import { LabGuiEvent, LabGuiEventTarget } from './events'
+import { MessageRouter, StatusHandler, StatusMap, StatusMessage, WILDCARD } from './router'
+
+export interface ChannelOptions {
+  /** The status of the message sent to subscribe to a channel, default 'subscribe'. */
+  subscribeStatus?: string
+  /** The status of the message sent to unsubscribe from a channel, default 'unsubscribe'. */
+  unsubscribeStatus?: string
+}
+
+/** Event dispatched when a channel was opened or closed */
+export interface ChannelEvent extends LabGuiEvent {
+  type: 'open' | 'close'
+  /** Name of the channel. */
+  channel: string
+}
+
+/** Events of Channel by their type */
+export interface ChannelEventMap {
+  open: ChannelEvent
+  close: ChannelEvent
+}
+
+/** Message object sent by a channel */
+export interface ChannelMessage {
+  status: string
+  data?: object
+  channel: string
+}
+
+/** Connection a channel is multiplexed over */
+export interface ChannelHost {
+  /** Whether the connection is open. */
+  isOpen(): boolean
+  /** Sends a message object over the connection. */
+  send(msgObject: ChannelMessage): Promise<void>
+  /** Forgets a closed channel. */
+  release(channel: Channel<any>): void
+}
+
+export const defaultChannelOptions: Required<ChannelOptions> = {
+  subscribeStatus: 'subscribe',
+  unsubscribeStatus: 'unsubscribe'
+}
+
+export class Channel<M extends StatusMap = StatusMap> extends LabGuiEventTarget<ChannelEventMap> {
+  private router: MessageRouter<M> = new MessageRouter<M>()
+  // whether the channel should be subscribed, false after close()
+  private active: boolean = true
+  private subscribed: boolean = false
+  private settings: Required<ChannelOptions>
+
+  /* tslint:disable:no-empty */
+  public onopen: (event: ChannelEvent) => void = event => {}
+  /* tslint:disable:no-empty */
+  public onclose: (event: ChannelEvent) => void = event => {}
+
+  constructor(
+    public readonly name: string,
+    private host: ChannelHost,
+    options: ChannelOptions = {}
+  ) {
+    super()
+    this.settings = { ...defaultChannelOptions, ...options }
+  }
+
+  /**
+   * Whether the channel is subscribed on an open connection
+   */
+  public get isOpen(): boolean {
+    return this.subscribed
+  }
+
+  /**
+   * Sends a message on this channel, in the same way as LabGuiWebsocket.send
+   *
+   * @param data message object, the channel name is added to it
+   */
+  public send(data: { status: string; data?: object }): Promise<void> {
+    if (!this.active) {
+      throw new NotConnectedError(`The channel '${this.name}' is closed.`, data)
+    }
+    return this.host.send({ ...data, channel: this.name })
+  }
+
+  /**
+   * Registers a handler for messages of this channel with the given status.
+   * Returns a function which removes the handler again.
+   *
+   * @param status status of the messages to handle
+   * @param handler function called with the data and the whole message object
+   */
+  public on<K extends keyof M & string>(status: K, handler: StatusHandler<K, M[K]>): () => void
+  public on(status: typeof WILDCARD, handler: StatusHandler): () => void
+  public on(status: string, handler: StatusHandler<any>): () => void {
+    return this.router.on(status, handler)
+  }
+
+  /**
+   * Same as `on`, but the handler is removed after it was called once.
+   *
+   * @param status status of the messages to handle
+   * @param handler function called with the data and the whole message object
+   */
+  public once<K extends keyof M & string>(status: K, handler: StatusHandler<K, M[K]>): () => void
+  public once(status: typeof WILDCARD, handler: StatusHandler): () => void
+  public once(status: string, handler: StatusHandler<any>): () => void {
+    return this.router.once(status, handler)
+  }
+
+  /**
+   * Removes a handler registered with `on` or `once`.
+   *
+   * @param status status the handler was registered for
+   * @param handler handler to remove, all handlers of the status if omitted
+   */
+  public off<K extends keyof M & string>(status: K, handler?: StatusHandler<K, M[K]>): void
+  public off(status: typeof WILDCARD, handler?: StatusHandler): void
+  public off(status: string, handler?: StatusHandler<any>): void {
+    this.router.off(status, handler)
+  }
+
+  /**
+   * Unsubscribes from the channel and releases it.
+   * The channel can't be used anymore afterwards.
+   */
+  public close(): void {
+    if (!this.active) {
+      return
+    }
+    this.active = false
+    if (this.host.isOpen()) {
+      this.sendControl(this.settings.unsubscribeStatus)
+    }
+    this.host.release(this)
+    this.suspend()
+  }
+
+  /**
+   * Subscribes to the channel, called whenever the connection was (re)opened.
+   */
+  public subscribe(): void {
+    if (!this.active || this.subscribed || !this.host.isOpen()) {
+      return
+    }
+    this.sendControl(this.settings.subscribeStatus)
+    this.subscribed = true
+    this.dispatchEvent({ type: 'open', channel: this.name })
+  }
+
+  /**
+   * Marks the channel as closed, called whenever the connection was closed.
+   * It is subscribed again, as soon as the connection is reopened.
+   */
+  public suspend(): void {
+    if (this.subscribed) {
+      this.subscribed = false
+      this.dispatchEvent({ type: 'close', channel: this.name })
+    }
+  }
+
+  /**
+   * Calls the handlers of this channel matching the status of the message object.
+   *
+   * @param msgObject message object received on this channel
+   */
+  public dispatch(msgObject: StatusMessage): boolean {
+    return this.router.dispatch(msgObject)
+  }
+
+  private sendControl(status: string): void {
+    this.host.send({ status, channel: this.name })
+  }
+}
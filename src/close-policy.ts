@@ -0,0 +1,57 @@
+/**
+ * Rules deciding what happens after the server or the network closed the connection,
+ * e.g. to stop reconnecting when the authentication failed or to wait longer while
+ * the server is down for maintenance.
+ */
+
+/**
+ * What happens after a close:
+ *  - 'reconnect': reconnect with the usual backoff
+ *  - 'stop': don't reconnect, the connection stays closed
+ *  - a number: reconnect after this many milliseconds
+ */
+export type CloseAction = 'reconnect' | 'stop' | number
+
+export interface CloseRule {
+  /** Name of the rule, which the close event reports as `rule`, e.g. 'auth-failed'. */
+  name: string
+  /** Close codes the rule applies to, a list or an inclusive range. Any code if omitted. */
+  codes?: number[] | { from: number; to: number }
+  /** Close reasons the rule applies to, a substring or a pattern. Any reason if omitted. */
+  reason?: string | RegExp
+  action: CloseAction
+}
+
+/**
+ * Returns the first rule, which applies to the close code and reason, undefined if none does.
+ *
+ * @param rules rules in the order they are checked
+ * @param code code of the close event
+ * @param reason reason of the close event
+ */
+export function findCloseRule(
+  rules: CloseRule[],
+  code: number | undefined,
+  reason: string | undefined
+): CloseRule | undefined {
+  return rules.find(rule => matchesCode(rule, code) && matchesReason(rule, reason || ''))
+}
+
+function matchesCode(rule: CloseRule, code: number | undefined): boolean {
+  const codes = rule.codes
+  if (codes === undefined) {
+    return true
+  }
+  if (code === undefined) {
+    return false
+  }
+  return Array.isArray(codes) ? codes.indexOf(code) !== -1 : code >= codes.from && code <= codes.to
+}
+
+function matchesReason(rule: CloseRule, reason: string): boolean {
+  const pattern = rule.reason
+  if (pattern === undefined) {
+    return true
+  }
+  return typeof pattern === 'string' ? reason.indexOf(pattern) !== -1 : pattern.test(reason)
+}
@@ -0,0 +1,95 @@
+/**
+ * Codecs translate between message objects and the frames sent over the websocket.
+ */
+
+import { decode as decodeMsgpack, encode as encodeMsgpack } from '@msgpack/msgpack'
+import { ParseError, SerializationError } from './errors'
+
+/** Data of a single websocket frame */
+export type Frame = string | ArrayBuffer
+
+export interface Codec {
+  /** Name of the codec, e.g. 'json' */
+  name: string
+  /** Whether the codec produces binary frames. */
+  binary: boolean
+  /** Translates a message object to a frame, throws a SerializationError if that fails. */
+  encode(msgObject: object): Frame
+  /** Translates a received frame to a message object, throws a ParseError if that fails. */
+  decode(frame: Frame): object
+}
+
+/** Default codec, which sends and expects JSON strings */
+export const jsonCodec: Codec = {
+  name: 'json',
+  binary: false,
+  encode(msgObject: object): Frame {
+    try {
+      return JSON.stringify(msgObject)
+    } catch (err) {
+      throw new SerializationError("The message couldn't be serialized to JSON.", msgObject)
+    }
+  },
+  decode(frame: Frame): object {
+    if (typeof frame !== 'string') {
+      throw new ParseError("The recived message wasn't a string.", frame)
+    }
+    try {
+      return JSON.parse(frame)
+    } catch (err) {
+      throw new ParseError("The recived message couldn't be parsed to JSON.", frame)
+    }
+  }
+}
+
+/** Binary codec using MessagePack, which is much more compact for numeric arrays */
+export const msgpackCodec: Codec = {
+  name: 'msgpack',
+  binary: true,
+  encode(msgObject: object): Frame {
+    let bytes: Uint8Array
+    try {
+      bytes = encodeMsgpack(msgObject)
+    } catch (err) {
+      throw new SerializationError("The message couldn't be encoded as MessagePack.", msgObject)
+    }
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+  },
+  decode(frame: Frame): object {
+    if (typeof frame === 'string') {
+      throw new ParseError("The recived message wasn't binary.", frame)
+    }
+    try {
+      return decodeMsgpack(frame) as object
+    } catch (err) {
+      throw new ParseError("The recived message couldn't be decoded as MessagePack.", frame)
+    }
+  }
+}
+
+/**
+ * Reads the content of a Blob frame, using Blob.arrayBuffer where available
+ * and FileReader otherwise.
+ *
+ * @param blob binary frame received with binaryType 'blob'
+ */
+export function blobToArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
+  if (typeof blob.arrayBuffer === 'function') {
+    return blob.arrayBuffer()
+  }
+  return new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+  })
+}
+
+/**
+ * Whether the data of a message event is a Blob, which has to be read before decoding.
+ *
+ * @param data data of a message event
+ */
+export function isBlob(data: any): data is Blob {
+  return typeof Blob !== 'undefined' && data instanceof Blob
+}
@@ -0,0 +1,25 @@
+/**
+ * States of the connection of a LabGuiWebsocket.
+ *
+ *  - 'idle': created with automaticOpen=false and not connected yet
+ *  - 'connecting': the first connection attempt is in progress
+ *  - 'open': the connection is established
+ *  - 'reconnecting': a reconnection attempt is in progress
+ *  - 'backing-off': waiting for the next reconnection attempt, or for the network to come back
+ *  - 'closing': close() was called and the websocket is being closed
+ *  - 'closed': the connection was closed on purpose or the close policy stopped reconnecting
+ *  - 'failed': gave up reconnecting after maxReconnectAttempts
+ *
+ * The usual transitions are:
+ *   idle -> connecting -> open -> backing-off -> reconnecting -> open -> closing -> closed
+ *   reconnecting -> backing-off -> reconnecting -> ... -> failed
+ */
+export type ConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'backing-off'
+  | 'closing'
+  | 'closed'
+  | 'failed'
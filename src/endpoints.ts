@@ -0,0 +1,187 @@
+/**
+ * Choice of the server to connect to, when there is more than one, e.g. a primary and
+ * a backup control server. Failed connection attempts are tracked per endpoint and
+ * the next attempt goes to the healthiest one.
+ */
+
+import { defaultTimers, TimerHandle, Timers } from './timers'
+
+/**
+ * Returns the url to connect to, called before each connection attempt,
+ * e.g. to ask a discovery service for the address of the lab.
+ */
+export type UrlProvider = () => string | Promise<string>
+
+export interface EndpointOptions {
+  /**
+   * Prefer the first url, the primary, whenever it is healthy. While connected to
+   * another endpoint, it is checked periodically whether the primary is back,
+   * in which case the connection switches back to it. Default false.
+   */
+  stickyPrimary?: boolean
+  /** The number of milliseconds between the checks of the primary, default 60000. */
+  failBackInterval?: number
+}
+
+/** Health of an endpoint, as tracked by the connection attempts */
+export interface EndpointHealth {
+  url: string
+  /** Number of failed connection attempts since the last successful one. */
+  failures: number
+  /** Number of successful connections. */
+  connects: number
+  /** Timestamp (ms) of the last failed connection attempt, null if none failed. */
+  lastFailureAt: number | null
+  /** Timestamp (ms) of the last successful connection, null if there was none. */
+  lastConnectedAt: number | null
+}
+
+export interface EndpointCallbacks {
+  /** Checks whether the endpoint accepts connections, without touching the current one. */
+  probe: (url: string) => Promise<boolean>
+  /** Called when the primary is back, to switch the connection over to it. */
+  failBack: (url: string) => void
+}
+
+export class Endpoints {
+  private healthByUrl: { [url: string]: EndpointHealth } = {}
+  // order of the failures, which decides between endpoints failing equally often
+  private failureOrder: { [url: string]: number } = {}
+  private failureCount: number = 0
+  private currentUrl: string | null = null
+  private failBackTimer: TimerHandle | null = null
+
+  settings: Required<EndpointOptions> = {
+    stickyPrimary: false,
+    failBackInterval: 60000
+  }
+
+  constructor(
+    public readonly urls: string[],
+    options: EndpointOptions,
+    private callbacks: EndpointCallbacks,
+    private timers: Timers = defaultTimers
+  ) {
+    this.settings = { ...this.settings, ...options }
+    urls.forEach(url => this.healthOf(url))
+  }
+
+  /**
+   * Url of the last connection attempt, null if there was none yet
+   */
+  public get current(): string | null {
+    return this.currentUrl
+  }
+
+  /**
+   * Health of all endpoints, which were given or connected to, in that order
+   */
+  public get health(): EndpointHealth[] {
+    return Object.keys(this.healthByUrl).map(url => ({ ...this.healthByUrl[url] }))
+  }
+
+  /**
+   * Returns the url for the next connection attempt: the endpoint with the fewest failures
+   * since its last successful connection, of equally healthy ones the one which failed
+   * longest ago. Remaining ties go to the primary with stickyPrimary, else to the
+   * current endpoint, so a working connection isn't moved.
+   */
+  public next(): string {
+    const start = this.settings.stickyPrimary
+      ? 0
+      : Math.max(this.urls.indexOf(this.currentUrl || ''), 0)
+    const candidates = this.urls.slice(start).concat(this.urls.slice(0, start))
+    const url = candidates.reduce((best, candidate) =>
+      this.compare(candidate, best) < 0 ? candidate : best
+    )
+    this.currentUrl = url
+    return url
+  }
+
+  /**
+   * Records a successful connection and starts checking the primary,
+   * if connected to another endpoint with stickyPrimary.
+   *
+   * @param url url of the opened connection
+   */
+  public succeeded(url: string): void {
+    this.currentUrl = url
+    const health = this.healthOf(url)
+    health.failures = 0
+    health.connects++
+    health.lastConnectedAt = this.timers.now()
+    delete this.failureOrder[url]
+    const primary = this.urls[0]
+    if (this.settings.stickyPrimary && primary !== undefined && url !== primary) {
+      this.scheduleFailBack(primary)
+    }
+  }
+
+  /**
+   * Records a failed connection attempt
+   *
+   * @param url url of the failed connection attempt
+   */
+  public failed(url: string): void {
+    const health = this.healthOf(url)
+    health.failures++
+    health.lastFailureAt = this.timers.now()
+    this.failureOrder[url] = ++this.failureCount
+  }
+
+  /**
+   * Stops checking the primary, supposed to be called when the connection was closed.
+   */
+  public stop(): void {
+    if (this.failBackTimer !== null) {
+      this.timers.clearTimeout(this.failBackTimer)
+      this.failBackTimer = null
+    }
+  }
+
+  private scheduleFailBack(primary: string): void {
+    this.stop()
+    const timer = this.timers.setTimeout(() => {
+      const probe = this.callbacks.probe(primary).catch(() => false)
+      probe.then(available => {
+        if (this.failBackTimer !== timer) {
+          return
+        }
+        this.failBackTimer = null
+        if (available) {
+          const health = this.healthOf(primary)
+          health.failures = 0
+          delete this.failureOrder[primary]
+          this.callbacks.failBack(primary)
+        } else {
+          this.failed(primary)
+          this.scheduleFailBack(primary)
+        }
+      })
+    }, this.settings.failBackInterval)
+    this.failBackTimer = timer
+  }
+
+  /**
+   * Negative if the first endpoint is healthier than the second
+   */
+  private compare(first: string, second: string): number {
+    const failures = this.healthOf(first).failures - this.healthOf(second).failures
+    return failures !== 0
+      ? failures
+      : (this.failureOrder[first] || 0) - (this.failureOrder[second] || 0)
+  }
+
+  private healthOf(url: string): EndpointHealth {
+    if (!this.healthByUrl[url]) {
+      this.healthByUrl[url] = {
+        url,
+        failures: 0,
+        connects: 0,
+        lastFailureAt: null,
+        lastConnectedAt: null
+      }
+    }
+    return this.healthByUrl[url]
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Signals of the environment, which tell whether reconnecting makes sense right now,
+ * e.g. not while the network is down. They can be replaced, e.g. in node or in tests.
+ */
+
+export interface EnvironmentSignals {
+  /** Whether the network is available. */
+  isOnline(): boolean
+  /** Whether the page is visible to the user. */
+  isVisible(): boolean
+  /**
+   * Calls the listener whenever one of the signals may have changed.
+   * Returns a function, which removes the listener again.
+   */
+  subscribe(listener: () => void): () => void
+}
+
+/**
+ * The signals of the browser, navigator.onLine with the 'online' and 'offline' events
+ * and document.visibilityState with the 'visibilitychange' event.
+ * Where they don't exist, e.g. in node, the network is always available and the page visible.
+ */
+export const defaultEnvironmentSignals: EnvironmentSignals = {
+  isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false
+  },
+  isVisible(): boolean {
+    return typeof document === 'undefined' || document.visibilityState !== 'hidden'
+  },
+  subscribe(listener: () => void): () => void {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', listener)
+      window.addEventListener('offline', listener)
+    }
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', listener)
+    }
+    return () => {
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('online', listener)
+        window.removeEventListener('offline', listener)
+      }
+      if (typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', listener)
+      }
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Errors raised by LabGuiWebsocket and its helpers. Each one carries a code, which
+ * doesn't depend on the wording of the message, and the payload which caused it,
+ * e.g. the received frame which couldn't be parsed.
+ */
+
+/**
+ * Machine readable kind of a LabGuiError
+ *  - 'NOT_CONNECTED': a message couldn't be sent or a reply can't arrive, since the websocket isn't open
+ *  - 'PARSE_ERROR': a received frame couldn't be decoded
+ *  - 'SERIALIZATION_ERROR': a message couldn't be encoded
+ *  - 'TIMEOUT': a reply or queued message didn't make it in time
+ *  - 'PROTOCOL_ERROR': the server sent a message, which couldn't be handled or signals an error
+ *  - 'VALIDATION_ERROR': a message failed validation, see the validators option
+ */
+export type LabGuiErrorCode =
+  | 'NOT_CONNECTED'
+  | 'PARSE_ERROR'
+  | 'SERIALIZATION_ERROR'
+  | 'TIMEOUT'
+  | 'PROTOCOL_ERROR'
+  | 'VALIDATION_ERROR'
+
+export class LabGuiError extends Error {
+  constructor(public code: LabGuiErrorCode, message: string, public payload?: any) {
+    super(message)
+    this.name = 'LabGuiError'
+  }
+}
+
+export class NotConnectedError extends LabGuiError {
+  constructor(message: string, payload?: any) {
+    super('NOT_CONNECTED', message, payload)
+    this.name = 'NotConnectedError'
+  }
+}
+
+export class ParseError extends LabGuiError {
+  constructor(message: string, payload?: any) {
+    super('PARSE_ERROR', message, payload)
+    this.name = 'ParseError'
+  }
+}
+
+export class SerializationError extends LabGuiError {
+  constructor(message: string, payload?: any) {
+    super('SERIALIZATION_ERROR', message, payload)
+    this.name = 'SerializationError'
+  }
+}
+
+export class TimeoutError extends LabGuiError {
+  constructor(message: string, payload?: any) {
+    super('TIMEOUT', message, payload)
+    this.name = 'TimeoutError'
+  }
+}
+
+export class ProtocolError extends LabGuiError {
+  constructor(message: string, payload?: any) {
+    super('PROTOCOL_ERROR', message, payload)
+    this.name = 'ProtocolError'
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Minimal EventTarget implementation, which supports multiple listeners per event
+ * next to the `on<type>` properties, which act as one listener each.
+ * It doesn't rely on the DOM, so it can be used with plain event objects.
+ */
+
+import { ConnectionState } from './connection-state'
+import { LabGuiError } from './errors'
+import { Stats } from './stats'
+import { ValidationError } from './validation'
+
+/** Base shape of all events dispatched by LabGuiWebsocket */
+export interface LabGuiEvent {
+  type: string
+}
+
+/** Event passed to LabGuiWebsocket.onconnecting */
+export interface ConnectingEvent extends LabGuiEvent {
+  type: 'connecting'
+  /** Number of the reconnection attempt, 0 for the first connection. */
+  attempt: number
+}
+
+/** Open event of LabGuiWebsocket */
+export interface LabGuiOpenEvent extends LabGuiEvent {
+  type: 'open'
+  /** Url of the endpoint the connection was opened to. */
+  url: string
+}
+
+/**
+ * Close event of LabGuiWebsocket, which tells how the close was handled.
+ * Closes of failed reconnection attempts are only dispatched, if the close policy stops reconnecting.
+ */
+export interface LabGuiCloseEvent extends LabGuiEvent {
+  type: 'close'
+  /** Close code sent by the server or the browser. */
+  code: number
+  /** Close reason sent by the server or the browser. */
+  reason: string
+  wasClean: boolean
+  /**
+   * The rule of the closePolicy option, which applied, or why the connection was closed:
+   * 'close-requested' for close(), 'reconnect-requested' for reconnect(),
+   * 'connection-timeout', 'heartbeat-timeout', 'max-reconnect-attempts',
+   * 'fail-back' when switching back to the primary endpoint, 'auth-timeout',
+   * 'auth-refresh' and 'auth-rejected' for a rejected token, before and after refreshing it,
+   * and 'default' if no rule applied.
+   */
+  rule: string
+  /** Whether a reconnect follows or the connection stays closed. */
+  action: 'reconnect' | 'stop'
+}
+
+/** Event dispatched when a reconnection attempt got scheduled */
+export interface ReconnectEvent extends LabGuiEvent {
+  type: 'reconnect'
+  /** Number of the scheduled reconnection attempt. */
+  attempt: number
+  /** Milliseconds until the reconnection attempt. */
+  delay: number
+}
+
+/** Event passed to LabGuiWebsocket.onreconnectfailed */
+export interface ReconnectFailedEvent extends LabGuiEvent {
+  type: 'reconnectfailed'
+  /** Number of reconnection attempts made before giving up. */
+  attempts: number
+}
+
+/** Event dispatched whenever the heartbeat measured the round-trip time */
+export interface LatencyEvent extends LabGuiEvent {
+  type: 'latency'
+  /** Round-trip time of the last ping in milliseconds. */
+  latency: number
+}
+
+/** Event dispatched on every change of LabGuiWebsocket.state */
+export interface StateChangeEvent extends LabGuiEvent {
+  type: 'statechange'
+  /** State before the transition. */
+  previous: ConnectionState
+  /** State after the transition. */
+  state: ConnectionState
+  /** What caused the transition, e.g. 'connection-lost' or 'max-reconnect-attempts'. */
+  reason: string
+  /** Number of the current or next reconnection attempt, 0 for the first connection. */
+  attempt: number
+  /**
+   * Timestamp (ms) of the next reconnection attempt while 'backing-off', null otherwise
+   * and while reconnecting is paused, e.g. since the network is down.
+   */
+  nextRetryAt: number | null
+}
+
+/** Event dispatched when messages of the server were missed, see the session option */
+export interface GapEvent extends LabGuiEvent {
+  type: 'gap'
+  /**
+   * 'sequence' if a received sequence number skipped messages,
+   * 'resume-failed' if the server couldn't replay the messages missed while reconnecting.
+   */
+  reason: 'sequence' | 'resume-failed'
+  /** Sequence number of the last message received before the gap. */
+  lastSeq: number | null
+  /** Sequence number of the message received after the gap, null if the resume failed. */
+  received: number | null
+}
+
+/** Event dispatched when an optimistic update was rolled back, see LabGuiWebsocket.update() */
+export interface RollbackEvent extends LabGuiEvent {
+  type: 'rollback'
+  /** Correlation id of the update. */
+  id: string
+  /** Status of the update. */
+  status: string
+  /** Data of the update, which was rolled back. */
+  data: object
+  /** Why the update failed, e.g. rejected by the server or timed out. */
+  error: Error
+}
+
+/** Event dispatched instead of passing on or sending a message, which failed validation */
+export interface ValidationErrorEvent extends LabGuiEvent {
+  type: 'validationerror'
+  /** Describes the problems and the direction and status of the message. */
+  error: ValidationError
+  /** The message object, which failed validation. */
+  message: object
+  /** The raw frame as received, or as it would have been sent. */
+  frame: any
+}
+
+/** Where an error dispatched with a LabGuiErrorEvent was raised */
+export interface ErrorContext {
+  /**
+   * 'receive' while handling a received message, 'send' for messages passed to send(),
+   * 'request' for requests and updates waiting for their reply
+   * and 'connect' if the url provider or the auth hook failed.
+   */
+  operation: 'receive' | 'send' | 'request' | 'connect'
+  /** Url of the server, the one of the last connection attempt if there are several. */
+  url: string
+  /** State of the connection, when the error was raised. */
+  state: ConnectionState
+}
+
+/**
+ * Error event dispatched by LabGuiWebsocket for errors, which would otherwise get lost
+ * or only reach the caller, next to the plain error events of the websocket.
+ */
+export interface LabGuiErrorEvent extends LabGuiEvent {
+  type: 'error'
+  /** A LabGuiError, or whatever a message handler threw. */
+  error: LabGuiError | Error
+  context: ErrorContext
+}
+
+/** Event dispatched periodically with the metrics of the connection, see the stats option */
+export interface StatsEvent extends LabGuiEvent {
+  type: 'stats'
+  stats: Stats
+}
+
+/** Events of LabGuiWebsocket by their type */
+export interface LabGuiWebsocketEventMap {
+  open: Event | LabGuiOpenEvent
+  close: Event | LabGuiCloseEvent
+  connecting: ConnectingEvent
+  error: Event | LabGuiErrorEvent
+  message: MessageEvent
+  reconnect: ReconnectEvent
+  reconnectfailed: ReconnectFailedEvent
+  latency: LatencyEvent
+  statechange: StateChangeEvent
+  gap: GapEvent
+  rollback: RollbackEvent
+  validationerror: ValidationErrorEvent
+  stats: StatsEvent
+}
+
+export type LabGuiEventListener<E> = ((event: E) => void) | { handleEvent(event: E): void }
+
+export interface LabGuiEventListenerOptions {
+  /** Remove the listener after it was called once. */
+  once?: boolean
+}
+
+interface ListenerEntry {
+  listener: LabGuiEventListener<any>
+  once: boolean
+}
+
+export class LabGuiEventTarget<EventMap> {
+  private listeners: { [type: string]: ListenerEntry[] } = {}
+
+  /**
+   * Registers a listener for the given event type.
+   * Adding the same listener twice has no effect.
+   *
+   * @param type type of the event, e.g. 'open'
+   * @param listener function or object with a `handleEvent` method
+   * @param options e.g. `{ once: true }`
+   */
+  public addEventListener<K extends keyof EventMap & string>(
+    type: K,
+    listener: LabGuiEventListener<EventMap[K]>,
+    options: LabGuiEventListenerOptions = {}
+  ): void {
+    const entries = this.listeners[type] || []
+    if (entries.some(entry => entry.listener === listener)) {
+      return
+    }
+    this.listeners[type] = entries.concat({ listener, once: options.once === true })
+  }
+
+  /**
+   * Removes a listener registered with `addEventListener`.
+   *
+   * @param type type of the event, e.g. 'open'
+   * @param listener listener to remove
+   */
+  public removeEventListener<K extends keyof EventMap & string>(
+    type: K,
+    listener: LabGuiEventListener<EventMap[K]>
+  ): void {
+    if (this.listeners[type]) {
+      this.listeners[type] = this.listeners[type].filter(entry => entry.listener !== listener)
+    }
+  }
+
+  /**
+   * Calls the `on<type>` property and all listeners registered for the type of the event.
+   * All listeners are called, even if one of them throws; the first error
+   * is passed to `listenerFailed` afterwards, which rethrows it.
+   * Returns false if the event was cancelled, true otherwise.
+   *
+   * @param event event to dispatch
+   */
+  public dispatchEvent<E extends LabGuiEvent>(event: E): boolean {
+    const entries = this.listeners[event.type] || []
+    if (entries.some(entry => entry.once)) {
+      this.listeners[event.type] = entries.filter(entry => !entry.once)
+    }
+    const property = (this as any)[`on${event.type}`]
+    const callbacks: ((event: LabGuiEvent) => void)[] = []
+    if (typeof property === 'function') {
+      callbacks.push(property.bind(this))
+    }
+    entries.forEach(({ listener }) => {
+      callbacks.push(typeof listener === 'function' ? listener : e => listener.handleEvent(e))
+    })
+
+    let firstError: { error: any } | null = null
+    for (const callback of callbacks) {
+      try {
+        callback(event)
+      } catch (error) {
+        firstError = firstError || { error }
+      }
+    }
+    if (firstError) {
+      this.listenerFailed(firstError.error, event)
+    }
+    return !(event as { defaultPrevented?: boolean }).defaultPrevented
+  }
+
+  /**
+   * Handles the error thrown by a listener of the event, after all listeners were called.
+   * Subclasses, which dispatch events in the middle of their own work, override it
+   * to keep that work from being interrupted.
+   *
+   * @param error error thrown by the listener
+   * @param event event the listener was called with
+   */
+  protected listenerFailed(error: any, event: LabGuiEvent): void {
+    throw error
+  }
+}
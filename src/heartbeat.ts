@@ -0,0 +1,96 @@
+/**
+ * Application level ping/pong, to detect dead connections long before
+ * the browser notices them and fires a close event.
+ */
+
+import { defaultTimers, TimerHandle, Timers } from './timers'
+
+export interface HeartbeatOptions {
+  /** The number of milliseconds between two pings, default 10000. */
+  interval?: number
+  /** The number of milliseconds to wait for the pong, before the connection is considered dead, default 5000. */
+  timeout?: number
+  /** The status of the ping SendData, default 'ping'. */
+  pingStatus?: string
+  /** The status of the pong message the server replies with, default 'pong'. */
+  pongStatus?: string
+}
+
+export interface HeartbeatCallbacks {
+  /** Sends a ping to the server. */
+  ping: (timestamp: number) => void
+  /** Called with the round-trip time in milliseconds, whenever a pong arrived. */
+  latency: (latency: number) => void
+  /** Called if no pong arrived within the timeout. */
+  dead: () => void
+}
+
+export class Heartbeat {
+  private pingTimer: TimerHandle | null = null
+  private pongTimer: TimerHandle | null = null
+  private pingSentAt: number | null = null
+
+  settings: Required<HeartbeatOptions> = {
+    interval: 10000,
+    timeout: 5000,
+    pingStatus: 'ping',
+    pongStatus: 'pong'
+  }
+
+  constructor(
+    options: HeartbeatOptions,
+    private callbacks: HeartbeatCallbacks,
+    private timers: Timers = defaultTimers
+  ) {
+    this.settings = { ...this.settings, ...options }
+  }
+
+  /**
+   * Starts sending pings, supposed to be called when the connection was opened.
+   */
+  public start(): void {
+    this.stop()
+    this.schedulePing()
+  }
+
+  /**
+   * Stops sending pings and waiting for pongs.
+   */
+  public stop(): void {
+    if (this.pingTimer !== null) {
+      this.timers.clearTimeout(this.pingTimer)
+      this.pingTimer = null
+    }
+    if (this.pongTimer !== null) {
+      this.timers.clearTimeout(this.pongTimer)
+      this.pongTimer = null
+    }
+    this.pingSentAt = null
+  }
+
+  /**
+   * Handles a pong of the server, measures the latency and schedules the next ping.
+   */
+  public pong(): void {
+    if (this.pingSentAt === null) {
+      return
+    }
+    const latency = this.timers.now() - this.pingSentAt
+    this.stop()
+    // scheduled first, so that the latency callback can stop the heartbeat
+    this.schedulePing()
+    this.callbacks.latency(latency)
+  }
+
+  private schedulePing(): void {
+    this.pingTimer = this.timers.setTimeout(() => {
+      this.pingTimer = null
+      this.pingSentAt = this.timers.now()
+      this.pongTimer = this.timers.setTimeout(() => {
+        this.stop()
+        this.callbacks.dead()
+      }, this.settings.timeout)
+      this.callbacks.ping(this.pingSentAt)
+    }, this.settings.interval)
+  }
+}
@@ -21,6 +21,8 @@
  *  etc...
  *
  * It is API compatible with the standard WebSocket API.
+ * Next to the `on<event>` properties, any number of listeners can be
+ * registered with `addEventListener`.
  *
  * Original Code: https://github.com/joewalnes/reconnecting-websocket/
  * - Joe Walnes
@@ -29,26 +31,133 @@
  * - David Doran
  */
 
+import { AuthOptions, Authenticator } from './auth'
+import { Channel, ChannelOptions } from './channels'
+import { CloseRule, findCloseRule } from './close-policy'
+import { blobToArrayBuffer, Codec, Frame, isBlob, jsonCodec } from './codecs'
+import { ConnectionState } from './connection-state'
+import { EndpointHealth, EndpointOptions, Endpoints, UrlProvider } from './endpoints'
+import { defaultEnvironmentSignals, EnvironmentSignals } from './environment'
+import { LabGuiError, NotConnectedError, ProtocolError, SerializationError } from './errors'
+import {
+  ConnectingEvent,
+  ErrorContext,
+  GapEvent,
+  LabGuiCloseEvent,
+  LabGuiErrorEvent,
+  LabGuiEvent,
+  LabGuiEventTarget,
+  LabGuiOpenEvent,
+  LabGuiWebsocketEventMap,
+  LatencyEvent,
+  ReconnectEvent,
+  ReconnectFailedEvent,
+  RollbackEvent,
+  StateChangeEvent,
+  StatsEvent,
+  ValidationErrorEvent
+} from './events'
+import { Heartbeat, HeartbeatOptions } from './heartbeat'
+import { consoleLogger, frameSize, Logger, LogLevel, redact, silentLogger } from './logger'
+import { Outbox, OutboxOptions } from './outbox'
+import { Recorder } from './recorder'
+import { PendingRequests, ReplyData, RequestOptions, UpdateOptions } from './requests'
+import { MessageRouter, StatusHandler, StatusMap, StatusMessage, WILDCARD } from './router'
+import { SendPolicyOptions, SendQueue } from './send-queue'
+import { Session, SessionOptions } from './session'
+import { SharedConnection, SharedConnectionOptions } from './shared'
+import { StateMirror, StateMirrorOptions } from './state-mirror'
+import { ConnectionStats, Stats, StatsOptions, statusOf } from './stats'
+import { defaultTimers, TimerHandle, Timers } from './timers'
+import { MessageValidators, ValidationDirection, ValidationError, Validator } from './validation'
+import {
+  getGlobalWebSocket,
+  ReadyState,
+  WebSocketConstructor,
+  WebSocketLike
+} from './websocket-like'
+
+export * from './auth'
+export * from './channels'
+export * from './close-policy'
+export * from './codecs'
+export * from './connection-state'
+export * from './endpoints'
+export * from './environment'
+export * from './errors'
+export * from './events'
+export * from './heartbeat'
+export * from './logger'
+export * from './outbox'
+export * from './recorder'
+export * from './requests'
+export * from './router'
+export * from './send-queue'
+export * from './session'
+export * from './shared'
+export * from './state-mirror'
+export * from './stats'
+export * from './timers'
+export * from './validation'
+export * from './websocket-like'
+
+/**
+ * Randomisation applied to the reconnect delay, so that many clients don't
+ * hit a restarted server in lockstep.
+ *  - 'none': use the computed delay as is
+ *  - 'full': a random delay between 0 and the computed delay
+ *  - 'equal': half of the computed delay plus a random part of the other half
+ */
+export type ReconnectJitter = 'none' | 'full' | 'equal'
+
 /** Object style to be sent with LabGuiWebsocket.send() */
 export interface SendData {
   status: string
   data?: object
+  /** Correlation id, which is used to match the reply of the server to a request. */
+  id?: string
+  /** Name of the channel the message belongs to, see LabGuiWebsocket.channel(). */
+  channel?: string
+}
+
+/** Encoded message waiting in the outbox or by the send policy to be sent */
+interface QueuedFrame {
+  frame: Frame
+  status: string
+  /** Correlation id of the request the message belongs to */
+  id?: string
 }
 
 export interface LabGuiWebsocketSettings extends LabGuiWebsocketOptions {
   /** Protocolls to be used */
   protocols: string[]
+  /** Codec to encode and decode messages */
+  codec: Codec
+  /** Timer functions to be used */
+  timers: Timers
 }
 
 export interface LabGuiWebsocketOptions {
-  /** Whether this instance should log debug messages. */
+  /** Whether this instance should log to the console, a shorthand for `logger: consoleLogger()`. */
   debug?: boolean
 
+  /** Receives the structured log records, silent by default. */
+  logger?: Logger
+
+  /** Fields of logged message objects, whose values are replaced by '[redacted]', e.g. ['password']. */
+  redactFields?: string[]
+
   /** Protocolls to be used */
   protocols?: string[]
 
-  /** WebSocket Class to create the WebSocket, thsi is mainly to mock it for testing */
-  websocketClass?: typeof WebSocket
+  /**
+   * WebSocket Class to create the WebSocket, this is needed in node (e.g. the one of
+   * the 'ws' package) and to mock it for testing. Defaults to the global WebSocket.
+   */
+  websocketClass?: WebSocketConstructor
+
+  /** Timer functions to be used instead of the global setTimeout and clearTimeout. */
+  timers?: Timers
 
   /** Whether or not the websocket should attempt to connect immediately upon instantiation. */
   automaticOpen?: boolean
@@ -65,37 +174,179 @@ export interface LabGuiWebsocketOptions {
 
   /** The maximum number of reconnection attempts to make. Unlimited if null. */
   maxReconnectAttempts?: number | null
+  /** The randomisation applied to each reconnect delay, default 'none'. */
+  reconnectJitter?: ReconnectJitter
+  /**
+   * Rules deciding by the close code and reason, whether to reconnect after the server
+   * or the network closed the connection. The first rule which applies is used,
+   * if none does the websocket reconnects.
+   */
+  closePolicy?: CloseRule[]
+  /**
+   * Signals telling whether the network is available and the page visible, by default
+   * navigator.onLine and document.visibilityState where they exist. Reconnecting pauses
+   * while offline and resumes right away, once the network is back.
+   */
+  environment?: EnvironmentSignals
+  /** Whether reconnecting also pauses while the page is hidden, default false. */
+  pauseWhenHidden?: boolean
+  /**
+   * How to choose between several urls, e.g. to prefer the primary server and switch
+   * back to it, once it is available again.
+   */
+  endpoints?: EndpointOptions
+  /**
+   * Authenticate each connection with a token, which is fetched before every connection
+   * attempt. The connection only opens, once the server accepted the token, a rejected
+   * token is refreshed once before reconnecting stops. Disabled if null (default).
+   */
+  auth?: AuthOptions | null
 
   /** The binary type, possible values 'blob' or 'arraybuffer', default 'blob'. */
   binaryType?: 'blob' | 'arraybuffer'
+
+  /**
+   * The codec used to encode sent SendData objects and decode received messages,
+   * e.g. msgpackCodec, default jsonCodec.
+   */
+  codec?: Codec
+
+  /**
+   * Buffer messages passed to send() while the websocket isn't open and send them
+   * as soon as the connection is established. Disabled if null (default).
+   */
+  outbox?: OutboxOptions | null
+
+  /**
+   * Pace the messages sent over the open connection, e.g. of sliders: coalesce, throttle
+   * or debounce them by their status, limit the messages per second and pause while the
+   * websocket buffers more than the high-water mark. Disabled if null (default).
+   */
+  sendPolicy?: SendPolicyOptions | null
+
+  /** The default number of milliseconds to wait for the reply to a request. */
+  requestTimeout?: number
+
+  /**
+   * Send pings while the connection is open and reconnect if the pong doesn't
+   * arrive in time. Disabled if null (default).
+   */
+  heartbeat?: HeartbeatOptions | null
+
+  /**
+   * Track the sequence numbers of the server messages and ask the server to replay
+   * the missed messages after a reconnect. Disabled if null (default).
+   */
+  session?: SessionOptions | null
+
+  /** The statuses of the messages to subscribe to and unsubscribe from channels. */
+  channels?: ChannelOptions
+
+  /**
+   * Share one connection between all tabs of the browser, which use the same url.
+   * The tabs elect a leader, which owns the websocket, the others send and receive
+   * through it over a BroadcastChannel. Disabled if null (default).
+   */
+  shared?: SharedConnectionOptions | null
+
+  /**
+   * Keep a local copy of the control state, which is updated by the snapshot and
+   * patch messages of the server, see LabGuiWebsocket.mirror. Disabled if null (default).
+   */
+  mirror?: StateMirrorOptions | null
+
+  /**
+   * Validators for the data of received and sent messages by their status,
+   * more can be added with LabGuiWebsocket.addValidator().
+   */
+  validators?: { [status: string]: Validator }
+
+  /** Options of the metrics returned by getStats(), e.g. the interval of the 'stats' event. */
+  stats?: StatsOptions
+
+  /**
+   * Records all frames and lifecycle events of the websockets, e.g. to play them back
+   * later on with createReplayWebSocket. Disabled if null (default).
+   */
+  recorder?: Recorder | null
 }
 
-export class LabGuiWebsocket {
+export class LabGuiWebsocket<
+  M extends StatusMap = StatusMap
+> extends LabGuiEventTarget<LabGuiWebsocketEventMap> {
   // The underlying WebSocket
-  private ws: null | WebSocket = null
+  private ws: null | WebSocketLike = null
+  // url of the current or last connection attempt
   private url: string
+  private endpoints: Endpoints
+  private urlProvider: UrlProvider | null
+  // the answers of the url provider and the auth hook, while they are awaited
+  private preparing: Promise<[string, string | null]> | null = null
+  private auth: Authenticator | null = null
+  // settles the authentication of the new connection, while waiting for the server's reply
+  private pendingAuth: ((accepted: boolean) => void) | null = null
 
   private reconnectAttempts: number
-  private readyState:
-    | WebSocket['CONNECTING']
-    | WebSocket['OPEN']
-    | WebSocket['CLOSING']
-    | WebSocket['CLOSED']
+  private readyState: ReadyState
+  private stateValue: ConnectionState = 'idle'
+  // reason for the next close event, if the websocket is closed on purpose
+  private closeReason: string | null = null
   private protocols: string[]
   private forcedClose: boolean = false
   private timedOut: boolean = false
+  private reconnectTimer: TimerHandle | null = null
+  // whether reconnecting waits for the network to come back or the page to become visible
+  private reconnectPaused: boolean = false
+  private environmentSignals = { online: true, visible: true }
+  private unwatchEnvironment: (() => void) | null = null
+  private outbox: Outbox<QueuedFrame> | null = null
+  private sendQueue: SendQueue<QueuedFrame> | null = null
+  private requests: PendingRequests
+  private router: MessageRouter<M> = new MessageRouter<M>()
+  private heartbeat: Heartbeat | null = null
+  private lastLatency: number | null = null
+  private session: Session | null = null
+  private channels: { [name: string]: Channel<any> } = {}
+  private shared: SharedConnection | null = null
+  private stateMirror: StateMirror | null = null
+  private validators: MessageValidators = new MessageValidators()
+  private logger: Logger
+  private stats: ConnectionStats
+  // the decoded message, while its message event is dispatched
+  private decoded: { frame: any; msgObject: any } | null = null
+  private handleWsClose: ((event: CloseEvent) => void) | null = null
+  // whether the websocket of the last attempt closed, so close() only needs to stop reconnecting
+  private wsClosed: boolean = false
+  private pendingFrames: Promise<void> | null = null
+  /* tslint:disable:no-empty */
+  public onopen: (event: Event | LabGuiOpenEvent) => void = event => {}
+  /* tslint:disable:no-empty */
+  public onclose: (event: Event | LabGuiCloseEvent) => void = event => {}
+  /* tslint:disable:no-empty */
+  public onconnecting: (event: ConnectingEvent) => void = event => {}
+  /* tslint:disable:no-empty */
+  public onerror: (event: Event | LabGuiErrorEvent) => void = event => {}
+  /* tslint:disable:no-empty */
+  public onreconnect: (event: ReconnectEvent) => void = event => {}
+  /* tslint:disable:no-empty */
+  public onreconnectfailed: (event: ReconnectFailedEvent) => void = event => {}
   /* tslint:disable:no-empty */
-  public onopen: (event: Event) => void = event => {}
+  public onlatency: (event: LatencyEvent) => void = event => {}
   /* tslint:disable:no-empty */
-  public onclose: (event: Event) => void = event => {}
+  public onstatechange: (event: StateChangeEvent) => void = event => {}
   /* tslint:disable:no-empty */
-  public onconnecting: () => void = () => {}
+  public ongap: (event: GapEvent) => void = event => {}
   /* tslint:disable:no-empty */
-  public onerror: (event: Event) => void = event => {}
+  public onrollback: (event: RollbackEvent) => void = event => {}
+  /* tslint:disable:no-empty */
+  public onvalidationerror: (event: ValidationErrorEvent) => void = event => {}
+  /* tslint:disable:no-empty */
+  public onstats: (event: StatsEvent) => void = event => {}
 
   // Default settings
   settings: LabGuiWebsocketSettings = {
     debug: false,
+    redactFields: [],
     protocols: [],
     automaticOpen: true,
     reconnectInterval: 1000,
@@ -103,19 +354,58 @@ export class LabGuiWebsocket {
     reconnectDecay: 1.5,
     timeoutInterval: 2000,
     maxReconnectAttempts: null,
-    binaryType: 'blob'
+    reconnectJitter: 'none',
+    closePolicy: [],
+    environment: defaultEnvironmentSignals,
+    pauseWhenHidden: false,
+    endpoints: {},
+    auth: null,
+    binaryType: 'blob',
+    codec: jsonCodec,
+    timers: defaultTimers,
+    outbox: null,
+    sendPolicy: null,
+    requestTimeout: 10000,
+    heartbeat: null,
+    session: null,
+    channels: {},
+    shared: null,
+    mirror: null,
+    validators: {},
+    stats: {},
+    recorder: null
   }
 
-  constructor(url: string, options: LabGuiWebsocketOptions = {}) {
+  /**
+   * @param url url of the server, several urls to fail over between, the first one being
+   *  the primary, or a function returning the url, which is called before each connection attempt
+   * @param options options of the connection
+   */
+  constructor(url: string | string[] | UrlProvider, options: LabGuiWebsocketOptions = {}) {
+    super()
     // Overwrite and define settings with options if they exist.
     this.settings = { ...this.settings, ...options }
     /** The number of attempted reconnects since starting, or the last successful connection. Read only. */
     this.reconnectAttempts = 0
 
     /** url of the WebSocket server. */
-    this.url = url
+    this.urlProvider = typeof url === 'function' ? url : null
+    const urls = typeof url === 'function' ? [] : ([] as string[]).concat(url)
+    if (this.urlProvider === null && urls.length === 0) {
+      throw new Error('At least one url is needed to connect to.')
+    }
+    this.url = urls.length > 0 ? urls[0] : ''
+    this.endpoints = new Endpoints(
+      urls,
+      this.settings.endpoints || {},
+      {
+        probe: endpoint => this.probeEndpoint(endpoint),
+        failBack: endpoint => this.failBack(endpoint)
+      },
+      this.settings.timers
+    )
     /** Connection state of the WebSocket connection. */
-    this.readyState = WebSocket.CONNECTING
+    this.readyState = ReadyState.CONNECTING
 
     /**
      * A string indicating the name of the sub-protocol the server selected; this will be one of
@@ -124,6 +414,94 @@ export class LabGuiWebsocket {
      */
     this.protocols = this.settings.protocols
 
+    this.logger = this.settings.logger || (this.settings.debug ? consoleLogger() : silentLogger)
+
+    this.requests = new PendingRequests(this.settings.timers)
+
+    this.stats = new ConnectionStats(this.settings.stats, this.settings.timers)
+
+    if (this.settings.outbox) {
+      this.outbox = new Outbox(this.settings.outbox, this.settings.timers)
+    }
+
+    if (this.settings.sendPolicy) {
+      this.sendQueue = new SendQueue(
+        this.settings.sendPolicy,
+        {
+          send: ({ frame, status, id }) => {
+            if (!this.ws) {
+              throw new NotConnectedError(
+                'The websocket was closed before the message could be sent.'
+              )
+            }
+            this.sendFrame(this.ws, frame, status, id)
+          },
+          bufferedAmount: () => (this.ws && this.ws.bufferedAmount) || 0,
+          merged: (replaced, replacement) => {
+            this.stats.merged(replaced.status)
+            if (replaced.id !== undefined) {
+              this.requests.follow(replaced.id, replacement.id)
+            }
+          },
+          dropped: ({ status }) => this.stats.dropped(status)
+        },
+        this.settings.timers
+      )
+    }
+
+    if (this.settings.auth) {
+      this.auth = new Authenticator(this.settings.auth)
+    }
+
+    if (this.settings.heartbeat) {
+      const heartbeat: Heartbeat = new Heartbeat(
+        this.settings.heartbeat,
+        {
+          ping: timestamp => {
+            this.log('debug', 'ping')
+            // like the other protocol frames, pings don't wait for the send policy
+            const ping = { status: heartbeat.settings.pingStatus, data: { timestamp } }
+            try {
+              if (this.ws) {
+                this.sendFrame(this.ws, this.settings.codec.encode(ping), ping.status)
+              }
+            } catch (err) {
+              this.reportError(err, 'send')
+            }
+          },
+          latency: latency => {
+            this.lastLatency = latency
+            this.stats.latency(latency)
+            this.dispatchEvent({ type: 'latency', latency })
+          },
+          dead: () => {
+            this.log('warn', 'heartbeat-timeout')
+            this.dropDeadConnection()
+          }
+        },
+        this.settings.timers
+      )
+      this.heartbeat = heartbeat
+    }
+
+    if (this.settings.session) {
+      this.session = new Session(this.settings.session)
+    }
+
+    const validators = this.settings.validators || {}
+    Object.keys(validators).forEach(status => this.addValidator(status, validators[status]))
+
+    if (this.settings.mirror) {
+      this.stateMirror = new StateMirror(this.settings.mirror)
+    }
+
+    if (this.settings.shared) {
+      this.shared = new SharedConnection(
+        { name: ['lab-gui-websocket'].concat(urls).join(' '), ...this.settings.shared },
+        this.settings.timers
+      )
+    }
+
     // Whether or not to create a websocket upon instantiation
     if (this.settings.automaticOpen === true) {
       this.connect(false)
@@ -138,166 +516,1179 @@ export class LabGuiWebsocket {
   }
 
   /**
-   * Returns the current readyState and is only used for testing
+   * Returns the current readyState, with the same values as the standard WebSocket
    */
   public get connectionState() {
     return this.readyState
   }
 
   /**
-   * Takes the response from the Server (which is expected to be a JSON sting)
-   * and return the object repressentation of that data.
+   * Returns the url of the current or last connection attempt,
+   * an empty string if the url provider wasn't called yet
+   */
+  public get activeUrl(): string {
+    return this.url
+  }
+
+  /**
+   * Returns the health of the endpoints, the number of failed connection attempts
+   * and successful connections of each url
+   */
+  public get endpointHealth(): EndpointHealth[] {
+    return this.endpoints.health
+  }
+
+  /**
+   * Returns the current state of the connection, see ConnectionState for the
+   * possible states. Every change is announced with a 'statechange' event.
+   */
+  public get state(): ConnectionState {
+    return this.stateValue
+  }
+
+  /**
+   * Returns the round-trip time in milliseconds measured by the last heartbeat,
+   * null if none was measured yet
+   */
+  public get latency(): number | null {
+    return this.lastLatency
+  }
+
+  /**
+   * Returns the number of messages waiting in the outbox or by the send policy to be sent
+   */
+  public get queuedMessages(): number {
+    return (this.outbox ? this.outbox.size : 0) + (this.sendQueue ? this.sendQueue.size : 0)
+  }
+
+  /**
+   * Returns the sequence number of the last message received in the session,
+   * null if sessions are disabled or no numbered message was received yet
+   */
+  public get lastSequence(): number | null {
+    return this.session ? this.session.lastSequence : null
+  }
+
+  /**
+   * Returns the local copy of the control state, null if the mirror option isn't set
+   */
+  public get mirror(): StateMirror | null {
+    return this.stateMirror
+  }
+
+  /**
+   * Returns a snapshot of the metrics of the connection, like the number of reconnects,
+   * the time spent connected and the traffic per status
+   */
+  public getStats(): Stats {
+    return this.stats.snapshot()
+  }
+
+  /**
+   * Takes the response from the Server (which is expected to be a JSON sting,
+   * or a frame of the configured codec) and return the object repressentation of that data.
    */
   public get_message_object(response: MessageEvent): object {
-    if (typeof response.data === 'string') {
-      try {
-        let msgObject: object = JSON.parse(response.data)
-        this.log('LabGuiWebsocket resolved message to msgObject: ', msgObject)
-        return msgObject
-      } catch (err) {
-        this.log(err, 'Error parsing the message string: ', response.data)
-        throw new TypeError("The recived message couldn't be parsed to JSON.")
-      }
-    } else {
-      this.log("The server didn't pass a string: ", response.data)
-      throw new TypeError("The recived message wasn't a string.")
-    }
+    const decoded = this.decoded
+    const msgObject: object =
+      decoded !== null && decoded.frame === response.data
+        ? decoded.msgObject
+        : this.settings.codec.decode(response.data)
+    this.log('debug', 'decoded', { message: msgObject }, response.data)
+    return msgObject
   }
 
   /**
    * Action to be triggered when the Server send data to the client.
    * The sent data is expected to be a JSON sting. The object generated from
-   * that response is than passed to `message_logic` which is supposed to be
-   * overwritten and do all the business logic.
+   * that response is than passed to `message_logic` which dispatches it to the
+   * handlers registered with `on`, or can be overwritten to do all the business logic.
    */
   public onmessage(response: MessageEvent): void {
-    this.log('the message event was ', response)
     const msgObject: object = this.get_message_object(response)
-    this.log('the message object was ', response)
-    this.message_logic(msgObject)
+    if (this.validate('inbound', msgObject, response.data) === null) {
+      this.message_logic(msgObject)
+    }
+  }
+
+  /**
+   * Registers a validator for the data of messages with the given status.
+   * Received messages failing validation aren't passed to the handlers and
+   * sent ones aren't sent, a 'validationerror' event is dispatched instead.
+   * Returns a function which removes the validator again.
+   *
+   * @param status status of the messages to validate
+   * @param validator JSON Schema or predicate function returning true for valid data
+   * @param direction validate received ('inbound') or sent ('outbound') messages, or 'both'
+   */
+  public addValidator(
+    status: string,
+    validator: Validator,
+    direction: ValidationDirection | 'both' = 'both'
+  ): () => void {
+    return this.validators.add(status, validator, direction)
   }
 
   /**
-   * Dummy method which is supposed to be overwritten
+   * Updates the state mirror and dispatches the message object to the handlers
+   * registered for its status.
+   * Throws a ProtocolError if the message wasn't handled by either, in which case
+   * this method is supposed to be overwritten.
    */
   public message_logic(msgObject: object): void {
-    const errorMsg =
-      'The method `message_logic` should be overwritten and used to ' +
-      'do all the business logic on recieved messages objects'
-    throw errorMsg
+    const mirrored = this.stateMirror !== null && this.stateMirror.receive(msgObject || {})
+    if (!this.router.dispatch(msgObject) && !mirrored) {
+      const errorMsg =
+        'The method `message_logic` should be overwritten and used to ' +
+        'do all the business logic on recieved messages objects, ' +
+        'or handlers should be registered with `on`'
+      throw new ProtocolError(errorMsg, msgObject)
+    }
   }
 
   /**
-   * Connects the WebSocket to the Server at the given url.
+   * Registers a handler for received messages with the given status.
+   * Handlers registered for '*' are called for every message.
+   * Returns a function which removes the handler again.
+   *
+   * @param status status of the messages to handle
+   * @param handler function called with the data and the whole message object
+   */
+  public on<K extends keyof M & string>(status: K, handler: StatusHandler<K, M[K]>): () => void
+  public on(status: typeof WILDCARD, handler: StatusHandler): () => void
+  public on(status: string, handler: StatusHandler<any>): () => void {
+    return this.router.on(status, handler)
+  }
+
+  /**
+   * Same as `on`, but the handler is removed after it was called once.
+   *
+   * @param status status of the messages to handle
+   * @param handler function called with the data and the whole message object
+   */
+  public once<K extends keyof M & string>(status: K, handler: StatusHandler<K, M[K]>): () => void
+  public once(status: typeof WILDCARD, handler: StatusHandler): () => void
+  public once(status: string, handler: StatusHandler<any>): () => void {
+    return this.router.once(status, handler)
+  }
+
+  /**
+   * Removes a handler registered with `on` or `once`.
+   * If no handler is given, all handlers of that status are removed.
+   *
+   * @param status status the handler was registered for
+   * @param handler handler to remove
+   */
+  public off<K extends keyof M & string>(status: K, handler?: StatusHandler<K, M[K]>): void
+  public off(status: typeof WILDCARD, handler?: StatusHandler): void
+  public off(status: string, handler?: StatusHandler<any>): void {
+    this.router.off(status, handler)
+  }
+
+  /**
+   * Registers a handler for received messages, for whose status no handler is registered.
+   * Returns a function which removes the handler again.
+   *
+   * @param handler function called with the data and the whole message object
+   */
+  public fallback(handler: StatusHandler): () => void {
+    return this.router.fallback(handler)
+  }
+
+  /**
+   * Connects the WebSocket to the Server at the given url, the healthiest of several urls
+   * or the one returned by the url provider, with a token of the auth hook.
    * This method get automatically executed at instance creation,
    * if automaticOpen=false is passes with the settings.
    *
    * @param reconnectAttempt: boolean weather or not this is a reconnection attempt
    */
   public connect(reconnectAttempt: boolean): void {
-    if (this.settings.websocketClass) {
-      this.ws = new this.settings.websocketClass(this.url, this.protocols)
-    } else {
-      this.ws = new WebSocket(this.url, this.protocols)
+    this.reconnectTimer = null
+    this.reconnectPaused = false
+    this.watchEnvironment()
+    this.forcedClose = false
+    this.wsClosed = false
+    this.readyState = ReadyState.CONNECTING
+    this.transition(reconnectAttempt ? 'reconnecting' : 'connecting', 'connect')
+    const provider = this.urlProvider
+    const auth = this.auth
+    if (provider === null && auth === null) {
+      this.openSocket(this.endpoints.next(), null, reconnectAttempt)
+      return
+    }
+    const preparing = Promise.resolve().then(() =>
+      Promise.all([provider ? provider() : this.endpoints.next(), auth ? auth.token() : null])
+    )
+    this.preparing = preparing
+    preparing.then(
+      ([url, token]) => {
+        if (this.preparing === preparing) {
+          this.preparing = null
+          // e.g. the websocket refuses a malformed url of the provider
+          try {
+            this.openSocket(url, token, reconnectAttempt)
+          } catch (err) {
+            this.connectFailed(err)
+          }
+        }
+      },
+      (err: Error) => {
+        if (this.preparing === preparing) {
+          this.preparing = null
+          this.connectFailed(err)
+        }
+      }
+    )
+  }
+
+  /**
+   * Reports an error of a connection attempt, which didn't get to create a websocket,
+   * and tries again later on
+   */
+  private connectFailed(err: Error): void {
+    this.reportError(err, 'connect')
+    if (!this.giveUpIfExhausted()) {
+      this.scheduleReconnect('connect-error', this.getReconnectDelay())
     }
+  }
 
-    this.onconnecting()
-    this.log('LabGuiWebsocket', 'attempt-connect', this.url)
+  /**
+   * Creates the websocket for a connection attempt to the given url
+   *
+   * @param url url of the connection attempt
+   * @param token token to authenticate with, null without the auth option
+   * @param reconnectAttempt whether this is a reconnection attempt
+   */
+  private openSocket(url: string, token: string | null, reconnectAttempt: boolean): void {
+    this.url = url
+    const baseClass = this.settings.websocketClass || getGlobalWebSocket()
+    const recorder = this.settings.recorder
+    const websocketClass = recorder ? recorder.wrap(baseClass) : baseClass
+    const auth = this.auth
+    const protocols =
+      auth && token !== null ? auth.protocols(this.protocols, token) : this.protocols
+    this.ws = this.shared
+      ? this.shared.createSocket(websocketClass, this.url, protocols)
+      : new websocketClass(this.url, protocols)
+    this.ws.binaryType = this.settings.binaryType as string
+
+    this.dispatchConnecting()
+    this.log('info', 'attempt-connect')
+    this.stats.attempt()
+    this.stats.start(stats => this.dispatchEvent({ type: 'stats', stats }))
 
     let localWs = this.ws
-    let timeout = setTimeout(() => {
-      this.log('LabGuiWebsocket', 'connection-timeout', this.url)
+    let opened = false
+    let authTimeout: TimerHandle | null = null
+    let timeout = this.settings.timers.setTimeout(() => {
+      this.log('warn', 'connection-timeout')
       this.timedOut = true
+      this.closeReason = 'connection-timeout'
       localWs.close()
       this.timedOut = false
-    }, this.settings.timeoutInterval)
+    }, this.settings.timeoutInterval as number)
 
-    this.ws.onopen = (event: Event) => {
-      clearTimeout(timeout)
-      this.log('LabGuiWebsocket', 'onopen', this.url)
-      this.readyState = WebSocket.OPEN
+    const established = () => {
+      this.log('info', 'onopen')
+      this.readyState = ReadyState.OPEN
+      this.reconnectAttempts = 0
       reconnectAttempt = false
-      this.onopen(event)
+      this.stats.opened()
+      if (this.shared) {
+        this.shared.opened()
+      }
+      this.transition('open', 'opened')
+      const resume = this.session ? this.session.resumeMessage() : null
+      if (resume) {
+        this.log('debug', 'resume', { lastSeq: resume.data.lastSeq })
+        this.sendFrame(localWs, this.settings.codec.encode(resume), resume.status)
+      }
+      this.eachChannel(channel => channel.subscribe())
+      if (this.outbox) {
+        this.log('debug', 'flush-outbox', { size: this.outbox.size })
+        // the send policy applies to the messages queued while disconnected as well
+        const sendQueue = this.sendQueue
+        this.outbox.flush(queued =>
+          sendQueue
+            ? sendQueue.push(queued)
+            : this.sendFrame(localWs, queued.frame, queued.status, queued.id)
+        )
+      }
+      if (this.heartbeat) {
+        this.heartbeat.start()
+      }
+      this.dispatchEvent({ type: 'open', url })
+    }
+
+    this.ws.onopen = (event: Event) => {
+      this.settings.timers.clearTimeout(timeout)
+      opened = true
+      this.endpoints.succeeded(url)
+      if (auth === null || token === null) {
+        established()
+        return
+      }
+      this.log('info', 'authenticate')
+      const message = auth.message(token)
+      if (message) {
+        this.sendFrame(localWs, this.settings.codec.encode(message), message.status)
+      }
+      authTimeout = this.settings.timers.setTimeout(() => {
+        this.log('warn', 'auth-timeout')
+        this.pendingAuth = null
+        this.closeReason = 'auth-timeout'
+        localWs.close()
+      }, auth.settings.timeout)
+      this.pendingAuth = accepted => {
+        this.settings.timers.clearTimeout(authTimeout as TimerHandle)
+        this.pendingAuth = null
+        if (accepted) {
+          auth.accepted()
+          established()
+        } else {
+          this.log('warn', 'auth-rejected')
+          this.closeReason = 'auth-rejected'
+          localWs.close(1000, 'Authentication rejected')
+        }
+      }
     }
 
-    this.ws.onclose = (event: Event) => {
-      clearTimeout(timeout)
+    this.ws.onclose = this.handleWsClose = (event: Event) => {
+      // a websocket, which was closed before, must not close its successor
+      if (this.ws !== localWs) {
+        return
+      }
+      this.handleWsClose = null
+      this.settings.timers.clearTimeout(timeout)
+      if (authTimeout !== null) {
+        this.settings.timers.clearTimeout(authTimeout)
+        this.pendingAuth = null
+      }
+      const closeReason = this.closeReason
+      const reason = closeReason || (reconnectAttempt ? 'connection-failed' : 'connection-lost')
+      this.closeReason = null
       this.ws = null
+      this.wsClosed = true
+      const { code, reason: closeMessage, wasClean } = event as CloseEvent
+      this.stats.closed(code)
+      if (this.sendQueue) {
+        this.sendQueue.clear('The websocket was closed before the message could be sent.')
+      }
+      this.endpoints.stop()
+      if (!opened) {
+        this.endpoints.failed(url)
+      }
+      if (this.heartbeat) {
+        this.heartbeat.stop()
+      }
+      this.eachChannel(channel => channel.suspend())
+      if (this.stateMirror) {
+        this.stateMirror.markStale()
+      }
+      // requests still waiting in the outbox are sent on the next connection
+      this.requests.rejectSent('The websocket was closed before a reply was received.')
+      const closeEvent = (rule: string, action: 'reconnect' | 'stop'): LabGuiCloseEvent => ({
+        type: 'close',
+        code,
+        reason: closeMessage,
+        wasClean,
+        rule,
+        action
+      })
+      const stopRequested = () => {
+        this.readyState = ReadyState.CLOSED
+        this.clearOutbox()
+        this.stats.stop()
+        this.stopWatchingEnvironment()
+        this.transition('closed', 'closed')
+        this.dispatchEvent(closeEvent('close-requested', 'stop'))
+      }
       if (this.forcedClose) {
-        this.readyState = WebSocket.CLOSED
-        this.onclose(event)
-      } else {
-        this.readyState = WebSocket.CONNECTING
-        this.onconnecting()
-        if (!reconnectAttempt && !this.timedOut) {
-          this.log('LabGuiWebsocket', 'onclose', this.url)
-          this.onclose(event)
-        }
-        setTimeout(() => {
-          this.connect(true)
-        }, this.settings.reconnectInterval)
+        stopRequested()
+        return
+      }
+      // closes initiated by this instance aren't subject to the close policy,
+      // reconnect() and switching back to the primary endpoint reconnect right away.
+      // Rejected tokens are refreshed, before the close policy is asked.
+      const immediate = closeReason === 'reconnect-requested' || closeReason === 'fail-back'
+      const authRejected =
+        this.auth !== null &&
+        (closeReason === 'auth-rejected' || (closeReason === null && this.auth.rejects(code)))
+      const rule: CloseRule = authRejected
+        ? (this.auth as Authenticator).rejected()
+        : closeReason
+        ? { name: closeReason, action: immediate ? 0 : 'reconnect' }
+        : findCloseRule(this.settings.closePolicy || [], code, closeMessage) || {
+            name: 'default',
+            action: 'reconnect'
+          }
+      if (rule.action === 'stop') {
+        this.readyState = ReadyState.CLOSED
+        this.clearOutbox()
+        this.resignShared()
+        this.stats.stop()
+        this.stopWatchingEnvironment()
+        this.transition('closed', 'close-policy')
+        this.log('warn', 'reconnect-stopped', { code, reason: closeMessage, rule: rule.name })
+        this.dispatchEvent(closeEvent(rule.name, 'stop'))
+        return
+      }
+      const giveUp = this.reconnectAttemptsExhausted()
+      if (!giveUp) {
+        this.readyState = ReadyState.CONNECTING
+        this.dispatchConnecting()
+      }
+      if (!reconnectAttempt && !this.timedOut) {
+        this.log('info', 'onclose', { code, reason })
+        this.dispatchEvent(
+          giveUp ? closeEvent('max-reconnect-attempts', 'stop') : closeEvent(rule.name, 'reconnect')
+        )
+      }
+      // close() was called by a listener of the events above
+      if (this.forcedClose) {
+        stopRequested()
+        return
+      }
+      if (!this.giveUpIfExhausted()) {
+        const delay = typeof rule.action === 'number' ? rule.action : this.getReconnectDelay()
+        this.scheduleReconnect(reason, delay)
       }
     }
 
     this.ws.onmessage = (event: MessageEvent): void => {
-      this.log('LabGuiWebsocket', 'onmessage', this.url, event.data)
-      this.onmessage(event)
+      this.log('debug', 'onmessage', undefined, event.data)
+      this.receive(event)
     }
     this.ws.onerror = (event: Event): void => {
-      this.log('LabGuiWebsocket', 'onerror', this.url, event)
-      this.onerror(event)
+      this.log('warn', 'onerror', { event })
+      this.dispatchEvent(event)
     }
   }
 
   /**
    * Transmits data to the server over the WebSocket connection.
+   * If the outbox is enabled and the websocket isn't open, the data gets queued
+   * and is sent as soon as the connection is established.
+   * The returned promise resolves when the data was handed to the websocket and
+   * rejects if queued data got dropped or expired, or the SendData failed validation.
+   * Throws a NotConnectedError if the websocket isn't open and there is no outbox,
+   * and a SerializationError if the data can't be encoded.
+   * Errors are also dispatched as 'error' events.
    *
    * @param data a text string or SendData to send to the server.
    */
 
-  public send(data: SendData | string): void {
-    let dataString: string
+  public send(data: SendData | string): Promise<void> {
+    let sent: Promise<void>
+    try {
+      sent = this.transmit(data)
+    } catch (err) {
+      this.reportError(err, 'send')
+      throw err
+    }
+    sent.catch((err: Error) => this.reportError(err, 'send'))
+    return sent
+  }
+
+  /**
+   * Returns the channel with the given name, which shares this connection.
+   * The channel is subscribed as soon as the connection is open and again after
+   * each reconnect, until it gets closed. Messages of the server carrying the name
+   * of the channel in their `channel` field are only passed to the channel.
+   *
+   * @param name name of the channel, e.g. 'laser_controller'
+   */
+  public channel<CM extends StatusMap = StatusMap>(name: string): Channel<CM> {
+    if (!this.channels[name]) {
+      const channel = new Channel<CM>(
+        name,
+        {
+          isOpen: () => this.readyState === ReadyState.OPEN,
+          send: msgObject => this.send(msgObject),
+          release: released => {
+            if (this.channels[name] === released) {
+              delete this.channels[name]
+            }
+          }
+        },
+        this.settings.channels
+      )
+      this.channels[name] = channel
+      channel.subscribe()
+    }
+    return this.channels[name]
+  }
+
+  /**
+   * Sends a SendData object with a new correlation id and waits for the reply
+   * of the server, which has to carry the same `id`.
+   * The returned promise resolves with the reply object and rejects if the reply
+   * contains an `error`, doesn't arrive in time or the connection gets closed.
+   *
+   * @param status status of the SendData object
+   * @param data data of the SendData object
+   * @param options options for this request, e.g. a custom timeout
+   */
+  public request(status: string, data?: object, options: RequestOptions = {}): Promise<ReplyData> {
+    return this.sendRequest(this.requests.nextId(), status, data, options)
+  }
+
+  /**
+   * Sends a control update optimistically: its data is applied to the state mirror
+   * right away (if enabled) and the update is tagged with a correlation id.
+   * It is confirmed, when the server acknowledges or echoes it with the same `id`,
+   * and rolled back with a 'rollback' event, if the server rejects it with an `error`,
+   * doesn't confirm it in time or the connection gets closed.
+   * The returned promise settles accordingly, it doesn't need to be awaited.
+   *
+   * @param status status of the SendData object
+   * @param data data of the SendData object
+   * @param options e.g. the path in the state mirror the data is applied to
+   */
+  public update(status: string, data: object, options: UpdateOptions = {}): Promise<ReplyData> {
+    const id = this.requests.nextId()
+    let revert: (() => void) | null = null
+    let sent: Promise<ReplyData>
+    try {
+      revert = this.stateMirror ? this.stateMirror.applyOptimistic(options.path || '', data) : null
+      sent = this.sendRequest(id, status, data, options)
+    } catch (err) {
+      this.reportError(err, 'request')
+      sent = Promise.reject(err)
+    }
+    const confirmed = sent.catch((error: Error) => {
+      this.log('warn', 'rollback', { id, status, error: error.message })
+      if (revert) {
+        revert()
+      }
+      this.dispatchEvent({ type: 'rollback', id, status, data, error })
+      throw error
+    })
+    /* tslint:disable:no-empty */
+    confirmed.catch(() => {})
+    return confirmed
+  }
+
+  /**
+   * Closes the WebSocket connection or connection attempt, if any.
+   * If the connection is already CLOSED, this method does nothing.
+   * A pending reconnection attempt is cancelled, also when called by a listener of the
+   * close event, followed by a close event of the rule 'close-requested'.
+   * Returns boolean, whether websocket was FORCEFULLY closed.
+   *
+   * @param code close code sent to the server, e.g. 4000
+   * @param reason close reason sent to the server
+   */
+  public close(code?: number, reason?: string): boolean {
+    this.resignShared()
+    if (this.reconnectTimer !== null || this.reconnectPaused || this.preparing !== null) {
+      this.cancelReconnect()
+      this.forcedClose = true
+      this.readyState = ReadyState.CLOSED
+      this.clearOutbox()
+      this.stats.stop()
+      this.stopWatchingEnvironment()
+      this.transition('closed', 'close-requested')
+      this.requests.rejectAll('The websocket was closed before a reply was received.')
+      this.dispatchEvent({
+        type: 'close',
+        code: code === undefined ? 1000 : code,
+        reason: reason || '',
+        wasClean: true,
+        rule: 'close-requested',
+        action: 'stop'
+      })
+    } else if (this.wsClosed) {
+      // called while the closed websocket is handled, e.g. by a listener of its close event
+      this.forcedClose = true
+    }
+    if (this.ws) {
+      this.forcedClose = true
+      this.transition('closing', 'close-requested')
+      this.ws.close(code, reason)
+      return true
+    }
+    return false
+  }
+
+  /**
+   * Connects again after the connection was closed with close(), stopped by the
+   * close policy or reconnecting gave up. Does nothing while the connection is open
+   * or being established.
+   * Called while the connection is closing, it is reopened once it is closed.
+   */
+  public open(): void {
+    if (this.ws && this.forcedClose) {
+      this.forcedClose = false
+      this.closeReason = 'reconnect-requested'
+    } else if (
+      this.ws === null &&
+      this.reconnectTimer === null &&
+      !this.reconnectPaused &&
+      this.preparing === null
+    ) {
+      this.reconnectAttempts = 0
+      this.connect(false)
+    }
+  }
+
+  /**
+   * Closes the current connection, if any, and connects again right away,
+   * also after the connection was closed with close() or reconnecting gave up.
+   * A pending or paused reconnection attempt is made right away,
+   * pending calls of the url provider and the auth hook are made again.
+   *
+   * @param code close code sent to the server for the current connection
+   * @param reason close reason sent to the server for the current connection
+   */
+  public reconnect(code?: number, reason?: string): void {
+    this.reconnectAttempts = 0
+    if (this.ws) {
+      this.forcedClose = false
+      this.closeReason = 'reconnect-requested'
+      this.ws.close(code, reason)
+      return
+    }
+    this.cancelReconnect()
+    this.connect(this.stateValue !== 'idle')
+  }
+
+  /**
+   * Validates a message object and dispatches a 'validationerror' event if it is invalid.
+   * Returns the error, null if the message is valid.
+   */
+  private validate(
+    direction: ValidationDirection,
+    msgObject: object,
+    frame: any
+  ): ValidationError | null {
+    const error = this.validators.validate(direction, msgObject)
+    if (error) {
+      this.log('warn', 'validation-error', { error: error.message, message: msgObject }, frame)
+      this.dispatchEvent({ type: 'validationerror', error, message: msgObject, frame })
+    }
+    return error
+  }
+
+  /**
+   * Encodes and validates the data and hands it to the websocket or the outbox
+   */
+  private transmit(data: SendData | string): Promise<void> {
+    let frame: Frame
     const errrorMsg =
       'The data to be sent need to be a string or an object of form ' +
       '{"status": "control_status", "data":{...ui_settings} }'
     if (typeof data === 'object') {
-      dataString = JSON.stringify(data)
+      frame = this.settings.codec.encode(data)
+      const invalid = this.validate('outbound', data, frame)
+      if (invalid) {
+        const rejected = Promise.reject(invalid)
+        /* tslint:disable:no-empty */
+        rejected.catch(() => {})
+        return rejected
+      }
       /* tslint:disable:strict-type-predicates */
     } else if (typeof data === 'string') {
-      dataString = data
+      frame = data
     } else {
-      throw new TypeError(errrorMsg)
+      throw new SerializationError(errrorMsg, data)
     }
-    if (this.ws) {
-      this.log('LabGuiWebsocket', 'send', this.url, data)
-      return this.ws.send(dataString)
+    const queued: QueuedFrame = { frame, status: statusOf(data) }
+    if (typeof data === 'object' && typeof data.id === 'string') {
+      queued.id = data.id
+    }
+    if (this.outbox && this.readyState !== ReadyState.OPEN) {
+      this.log('debug', 'queue', { message: data }, frame)
+      return this.outbox.push(queued)
+    }
+    // the websocket is only open after the authentication, if any, was accepted
+    if (this.ws && this.readyState === ReadyState.OPEN) {
+      this.log('debug', 'send', { message: data }, frame)
+      if (this.sendQueue) {
+        return this.sendQueue.push(queued)
+      }
+      this.sendFrame(this.ws, frame, queued.status, queued.id)
+      return Promise.resolve()
     } else {
-      throw new Error('INVALID_STATE_ERR : Pausing to reconnect websocket')
+      throw new NotConnectedError('INVALID_STATE_ERR : Pausing to reconnect websocket', data)
     }
   }
 
   /**
-   * Closes the WebSocket connection or connection attempt, if any.
-   * If the connection is already CLOSED, this method does nothing.
-   * Returns boolean, whether websocket was FORCEFULLY closed.
+   * Hands a frame to the websocket and counts it in the stats.
+   * The request with the given correlation id, if any, now waits for its reply.
    */
-  public close(): boolean {
-    if (this.ws) {
-      this.forcedClose = true
-      this.ws.close()
+  private sendFrame(ws: WebSocketLike, frame: Frame, status: string, id?: string): void {
+    ws.send(frame)
+    this.stats.sent(status, frameSize(frame) || 0)
+    if (id !== undefined) {
+      this.requests.sent(id)
+    }
+  }
+
+  /**
+   * Sends a SendData object with the given correlation id and waits for the reply
+   */
+  private sendRequest(
+    id: string,
+    status: string,
+    data: object | undefined,
+    options: RequestOptions
+  ): Promise<ReplyData> {
+    const timeout =
+      options.timeout !== undefined ? options.timeout : (this.settings.requestTimeout as number)
+    const reply = this.requests.add(id, timeout)
+    try {
+      this.transmit({ status, data, id }).catch((err: Error) => this.requests.reject(id, err))
+    } catch (err) {
+      this.requests.reject(id, err)
+    }
+    reply.catch((err: Error) => {
+      // the caller was told the request failed, so it must not be sent later on
+      if (this.outbox) {
+        this.outbox.discard(queued => queued.id === id, err.message)
+      }
+      if (this.sendQueue) {
+        this.sendQueue.discard(queued => queued.id === id, err.message)
+      }
+      this.reportError(err, 'request')
+    })
+    return reply
+  }
+
+  /**
+   * Changes the connection state and announces it with a 'statechange' event
+   *
+   * @param state the new state
+   * @param reason what caused the transition
+   * @param nextRetryAt timestamp of the next reconnection attempt, if one is scheduled
+   */
+  private transition(state: ConnectionState, reason: string, nextRetryAt: number | null = null) {
+    const previous = this.stateValue
+    if (previous === state) {
+      return
+    }
+    this.stateValue = state
+    this.dispatchEvent({
+      type: 'statechange',
+      previous,
+      state,
+      reason,
+      attempt: this.reconnectAttempts,
+      nextRetryAt
+    })
+  }
+
+  /**
+   * Notifies about a (re)connection attempt
+   */
+  private dispatchConnecting(): void {
+    this.dispatchEvent({ type: 'connecting', attempt: this.reconnectAttempts })
+  }
+
+  /**
+   * Passes a received message on. Blob frames need to be read before they can be
+   * decoded, following messages wait for that, so the order of the messages is kept.
+   */
+  private receive(event: MessageEvent): void {
+    if (this.pendingFrames === null && !isBlob(event.data)) {
+      this.handleMessage(event)
+      return
+    }
+    const frame: Promise<Frame> = isBlob(event.data)
+      ? blobToArrayBuffer(event.data)
+      : Promise.resolve(event.data)
+    const previous = this.pendingFrames || Promise.resolve()
+    const current: Promise<void> = previous
+      .then(() => frame)
+      .then(data => this.handleMessage(this.withData(event, data)))
+      .catch(err => this.reportError(err, 'receive'))
+      .then(() => {
+        if (this.pendingFrames === current) {
+          this.pendingFrames = null
+        }
+      })
+    this.pendingFrames = current
+  }
+
+  /**
+   * Passes a message on, errors raised by the handlers are dispatched as 'error'
+   * events, since there is no caller, which could catch them.
+   */
+  private handleMessage(event: MessageEvent): void {
+    try {
+      const msgObject = this.decodeReceived(event.data)
+      if (msgObject === undefined || !this.handleProtocolMessage(msgObject)) {
+        // saves decoding the frame again in get_message_object
+        this.decoded = msgObject === undefined ? null : { frame: event.data, msgObject }
+        this.dispatchEvent(event)
+      }
+    } catch (err) {
+      this.reportError(err, 'receive')
+    } finally {
+      this.decoded = null
+    }
+  }
+
+  /**
+   * Decodes a received frame and counts it in the stats.
+   * Returns undefined if the frame couldn't be decoded.
+   */
+  private decodeReceived(frame: Frame): any {
+    const size = frameSize(frame) || 0
+    try {
+      const msgObject = this.settings.codec.decode(frame)
+      this.stats.received(statusOf(msgObject), size)
+      return msgObject
+    } catch (err) {
+      this.stats.parseFailed()
+      this.stats.received('', size)
+      return undefined
+    }
+  }
+
+  /**
+   * Errors of message handlers are dispatched as 'error' events by handleMessage.
+   * Other listeners are called in the middle of connecting, closing and reconnecting,
+   * so their errors are rethrown asynchronously, instead of interrupting the connection.
+   */
+  protected listenerFailed(error: any, event: LabGuiEvent): void {
+    if (event.type === 'message') {
+      throw error
+    }
+    this.log('error', 'listener-error', {
+      event: event.type,
+      error: error instanceof Error ? error.message : error
+    })
+    this.settings.timers.setTimeout(() => {
+      throw error
+    }, 0)
+  }
+
+  /**
+   * Dispatches an 'error' event with the context the error was raised in.
+   * Validation errors are left out, since they have their own 'validationerror' event.
+   */
+  private reportError(error: Error, operation: ErrorContext['operation']): void {
+    if (error instanceof ValidationError) {
+      return
+    }
+    // the payload of the error is logged as plain data, so its fields get redacted
+    const details =
+      error instanceof LabGuiError
+        ? { error: error.message, name: error.name, code: error.code, payload: error.payload }
+        : { error: error.message, name: error.name }
+    this.log('error', `${operation}-error`, details)
+    this.dispatchEvent({
+      type: 'error',
+      error,
+      context: { operation, url: this.url, state: this.stateValue }
+    })
+  }
+
+  /**
+   * Copy of a message event with the read content of a Blob frame as data
+   */
+  private withData(event: MessageEvent, data: Frame): MessageEvent {
+    const { type, origin, lastEventId, target } = event
+    return { type, origin, lastEventId, target, data } as MessageEvent
+  }
+
+  /**
+   * Handles messages which belong to the protocol of this class, like replies
+   * to requests and heartbeat pongs, instead of passing them on.
+   * Returns whether the message was consumed.
+   */
+  private handleProtocolMessage(msgObject: StatusMessage): boolean {
+    if (msgObject === null || typeof msgObject !== 'object') {
+      return false
+    }
+    if (this.pendingAuth !== null && this.auth) {
+      const { okStatus, rejectedStatus } = this.auth.settings
+      if (msgObject.status === okStatus || msgObject.status === rejectedStatus) {
+        this.pendingAuth(msgObject.status === okStatus)
+        return true
+      }
+    }
+    if (this.session && this.handleSequence(this.session, msgObject)) {
       return true
     }
-    return false
+    if (typeof msgObject.channel === 'string' && this.channels[msgObject.channel]) {
+      this.channels[msgObject.channel].dispatch(msgObject)
+      return true
+    }
+    if (this.heartbeat && msgObject.status === this.heartbeat.settings.pongStatus) {
+      this.heartbeat.pong()
+      return true
+    }
+    return typeof msgObject.id === 'string' && this.requests.resolve(msgObject as ReplyData)
+  }
+
+  /**
+   * Lets another tab take over the shared connection, since this one
+   * won't reconnect anymore.
+   */
+  private resignShared(): void {
+    if (this.shared) {
+      this.shared.resign()
+    }
+  }
+
+  private eachChannel(callback: (channel: Channel<any>) => void): void {
+    Object.keys(this.channels).forEach(name => callback(this.channels[name]))
+  }
+
+  /**
+   * Tracks the sequence number of a message and announces missed messages.
+   * Returns whether the message was consumed, which are the answer to a failed
+   * resume and duplicates of messages received before.
+   */
+  private handleSequence(session: Session, msgObject: StatusMessage): boolean {
+    const lastSeq = session.lastSequence
+    if (msgObject.status === session.settings.resumeFailedStatus) {
+      this.log('warn', 'resume-failed', { lastSeq })
+      session.reset()
+      this.dispatchEvent({ type: 'gap', reason: 'resume-failed', lastSeq, received: null })
+      return true
+    }
+    const seq = session.sequenceOf(msgObject)
+    if (seq === null) {
+      return false
+    }
+    const check = session.track(seq)
+    if (check === 'gap') {
+      this.log('warn', 'sequence-gap', { lastSeq, received: seq })
+      this.dispatchEvent({ type: 'gap', reason: 'sequence', lastSeq, received: seq })
+    }
+    return check === 'duplicate'
+  }
+
+  /**
+   * Drops a connection, which stopped responding, and reconnects through the usual
+   * close handling, without waiting for the browser to notice the dead connection.
+   */
+  private dropDeadConnection(): void {
+    const deadWs = this.ws
+    const handleClose = this.handleWsClose
+    if (deadWs === null || handleClose === null) {
+      return
+    }
+    /* tslint:disable:no-empty */
+    deadWs.onclose = deadWs.onmessage = deadWs.onerror = () => {}
+    this.closeReason = 'heartbeat-timeout'
+    deadWs.close(4000, 'Heartbeat timeout')
+    const closeEvent = { type: 'close', code: 4000, reason: 'Heartbeat timeout', wasClean: false }
+    handleClose(closeEvent as CloseEvent)
+  }
+
+  /**
+   * Returns why reconnecting has to wait: 'offline' if the network is down,
+   * 'hidden' if the page is hidden and pauseWhenHidden is set, null otherwise.
+   */
+  private pauseReason(): 'offline' | 'hidden' | null {
+    const environment = this.settings.environment as EnvironmentSignals
+    if (!environment.isOnline()) {
+      return 'offline'
+    }
+    return this.settings.pauseWhenHidden && !environment.isVisible() ? 'hidden' : null
+  }
+
+  /**
+   * Waits for the environment to change, instead of scheduling the next reconnection attempt
+   */
+  private pauseReconnect(): void {
+    const reason = this.pauseReason() as string
+    this.reconnectPaused = true
+    this.log('info', 'reconnect-paused', { reason })
+    this.transition('backing-off', reason)
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer !== null) {
+      this.settings.timers.clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    this.reconnectPaused = false
+    this.preparing = null
   }
 
   /**
-   * Private logging method which only logs if the
-   * setting 'debug' is set to true
+   * Whether the maximum number of reconnection attempts was made
    */
+  private reconnectAttemptsExhausted(): boolean {
+    const maxAttempts = this.settings.maxReconnectAttempts
+    return typeof maxAttempts === 'number' && this.reconnectAttempts >= maxAttempts
+  }
+
+  /**
+   * Stops reconnecting, if the maximum number of reconnection attempts was made.
+   * Returns whether it did.
+   */
+  private giveUpIfExhausted(): boolean {
+    if (!this.reconnectAttemptsExhausted()) {
+      return false
+    }
+    this.readyState = ReadyState.CLOSED
+    this.clearOutbox()
+    this.resignShared()
+    this.stats.stop()
+    this.stopWatchingEnvironment()
+    this.transition('failed', 'max-reconnect-attempts')
+    this.log('error', 'reconnect-failed', { attempts: this.reconnectAttempts })
+    this.dispatchEvent({ type: 'reconnectfailed', attempts: this.reconnectAttempts })
+    return true
+  }
+
+  /**
+   * Schedules the next reconnection attempt, or waits for the environment to change
+   *
+   * @param reason what caused the reconnect, e.g. 'connection-lost'
+   * @param delay milliseconds until the reconnection attempt
+   */
+  private scheduleReconnect(reason: string, delay: number): void {
+    this.reconnectAttempts++
+    if (this.pauseReason() !== null) {
+      this.pauseReconnect()
+      return
+    }
+    // scheduled before the events are dispatched, so that their listeners can cancel it with close()
+    this.reconnectTimer = this.settings.timers.setTimeout(() => {
+      if (this.pauseReason() !== null) {
+        this.reconnectTimer = null
+        this.pauseReconnect()
+      } else {
+        this.connect(true)
+      }
+    }, delay)
+    this.log('info', 'reconnect-scheduled', { delay })
+    this.transition('backing-off', reason, this.settings.timers.now() + delay)
+    this.dispatchEvent({ type: 'reconnect', attempt: this.reconnectAttempts, delay })
+  }
+
+  /**
+   * Checks whether a connection to the url can be opened, with a websocket of its own,
+   * which is closed again right away
+   */
+  private probeEndpoint(url: string): Promise<boolean> {
+    return new Promise(resolve => {
+      const websocketClass = this.settings.websocketClass || getGlobalWebSocket()
+      const probe = new websocketClass(url, this.protocols)
+      const done = (available: boolean) => {
+        this.settings.timers.clearTimeout(timeout)
+        /* tslint:disable:no-empty */
+        probe.onopen = probe.onclose = probe.onerror = () => {}
+        probe.close(1000, 'Probe')
+        resolve(available)
+      }
+      const timeout = this.settings.timers.setTimeout(
+        () => done(false),
+        this.settings.timeoutInterval as number
+      )
+      probe.onopen = () => done(true)
+      probe.onclose = () => done(false)
+    })
+  }
+
+  /**
+   * Closes the connection to a backup endpoint, to reconnect to the primary right away
+   */
+  private failBack(primary: string): void {
+    if (this.ws === null || this.readyState !== ReadyState.OPEN) {
+      return
+    }
+    this.log('info', 'fail-back', { url: primary })
+    this.closeReason = 'fail-back'
+    this.ws.close(1000, 'Fail-back')
+  }
 
-  private log(...args: any[]): void {
-    if (this.settings.debug) {
-      console.log(...args)
+  private watchEnvironment(): void {
+    if (this.unwatchEnvironment !== null) {
+      return
+    }
+    const environment = this.settings.environment as EnvironmentSignals
+    this.environmentSignals = { online: environment.isOnline(), visible: environment.isVisible() }
+    this.unwatchEnvironment = environment.subscribe(() => this.environmentChanged())
+  }
+
+  private stopWatchingEnvironment(): void {
+    if (this.unwatchEnvironment !== null) {
+      this.unwatchEnvironment()
+      this.unwatchEnvironment = null
+    }
+  }
+
+  /**
+   * Reconnects right away, when the network came back or the page became visible,
+   * instead of waiting for the rest of the reconnect delay.
+   */
+  private environmentChanged(): void {
+    const environment = this.settings.environment as EnvironmentSignals
+    const previous = this.environmentSignals
+    const current = { online: environment.isOnline(), visible: environment.isVisible() }
+    this.environmentSignals = current
+    const cameBack = (current.online && !previous.online) || (current.visible && !previous.visible)
+    const waiting = this.reconnectTimer !== null || this.reconnectPaused
+    if (!cameBack || !waiting || this.pauseReason() !== null) {
+      return
+    }
+    this.log('info', 'reconnect-resumed', current)
+    this.cancelReconnect()
+    this.connect(true)
+  }
+
+  /**
+   * Rejects all messages still waiting in the outbox,
+   * since the websocket won't be opened again.
+   */
+  private clearOutbox(): void {
+    if (this.outbox) {
+      this.outbox.clear('The websocket was closed before the message could be sent.')
+    }
+  }
+
+  /**
+   * Delay in milliseconds before the next reconnection attempt.
+   * The delay grows by `reconnectDecay` with every failed attempt, is capped
+   * at `maxReconnectInterval` and is then randomised by `reconnectJitter`.
+   */
+  private getReconnectDelay(): number {
+    const { reconnectInterval, reconnectDecay, maxReconnectInterval } = this.settings
+    const delay = Math.min(
+      (reconnectInterval as number) * Math.pow(reconnectDecay as number, this.reconnectAttempts),
+      maxReconnectInterval as number
+    )
+    switch (this.settings.reconnectJitter) {
+      case 'full':
+        return Math.random() * delay
+      case 'equal':
+        return delay / 2 + (Math.random() * delay) / 2
+      default:
+        return delay
+    }
+  }
+
+  /**
+   * Passes a structured record to the logger, message objects in the details
+   * get their `redactFields` redacted.
+   *
+   * @param level level of the record
+   * @param event what happened, e.g. 'attempt-connect'
+   * @param details further details of the event
+   * @param frame the sent or received frame, whose size is logged
+   */
+  private log(level: LogLevel, event: string, details?: object, frame?: any): void {
+    if (this.logger === silentLogger) {
+      return
     }
+    this.logger[level]({
+      level,
+      event,
+      url: this.url,
+      attempt: this.reconnectAttempts,
+      payloadSize: frameSize(frame),
+      details: details && redact(details, this.settings.redactFields as string[]),
+      timestamp: this.settings.timers.now()
+    })
   }
 }
@@ -0,0 +1,104 @@
+/**
+ * Structured logging of LabGuiWebsocket. Each log call produces a LogRecord,
+ * which is passed to the method of the configured Logger matching its level.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export interface LogRecord {
+  level: LogLevel
+  /** What happened, e.g. 'attempt-connect', 'reconnect-scheduled' or 'send'. */
+  event: string
+  /** Url of the server. */
+  url: string
+  /** Number of the current reconnection attempt, 0 for the first connection. */
+  attempt: number
+  /** Size of the sent or received frame, bytes for binary and characters for text frames. */
+  payloadSize?: number
+  /** Further details of the event, e.g. the message object with its redacted fields. */
+  details?: { [key: string]: any }
+  /** Time of the event in milliseconds since the epoch. */
+  timestamp: number
+}
+
+export interface Logger {
+  debug(record: LogRecord): void
+  info(record: LogRecord): void
+  warn(record: LogRecord): void
+  error(record: LogRecord): void
+}
+
+/** The console methods used by consoleLogger */
+export interface ConsoleLike {
+  debug(...args: any[]): void
+  info(...args: any[]): void
+  warn(...args: any[]): void
+  error(...args: any[]): void
+}
+
+const levels: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+/* tslint:disable:no-empty */
+const ignore = (record: LogRecord) => {}
+
+/** Default logger, which drops all records */
+export const silentLogger: Logger = { debug: ignore, info: ignore, warn: ignore, error: ignore }
+
+/**
+ * Creates a logger, which writes the records to the console method of their level.
+ *
+ * @param minLevel records below this level are dropped, default 'debug'
+ * @param target console to write to, defaults to the global console
+ */
+export function consoleLogger(minLevel: LogLevel = 'debug', target: ConsoleLike = console): Logger {
+  const write = (level: LogLevel) => (record: LogRecord) => {
+    if (levels.indexOf(level) >= levels.indexOf(minLevel)) {
+      target[level]('LabGuiWebsocket', record.event, record.url, record)
+    }
+  }
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') }
+}
+
+/**
+ * Returns a copy of the value, in which the values of the given fields are replaced
+ * by '[redacted]', at any depth.
+ *
+ * @param value e.g. a message object
+ * @param fields names of the fields to redact, e.g. ['password', 'token']
+ */
+export function redact(value: any, fields: string[]): any {
+  if (fields.length === 0 || value === null || typeof value !== 'object') {
+    return value
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, fields))
+  }
+  if (Object.getPrototypeOf(value) !== Object.prototype) {
+    // e.g. errors, events and binary frames are logged as they are
+    return value
+  }
+  const copy: { [key: string]: any } = {}
+  Object.keys(value).forEach(key => {
+    copy[key] = fields.indexOf(key) === -1 ? redact(value[key], fields) : '[redacted]'
+  })
+  return copy
+}
+
+/**
+ * Returns the size of a frame, bytes for binary and characters for text frames,
+ * undefined if it isn't a frame.
+ *
+ * @param frame data of a websocket message
+ */
+export function frameSize(frame: any): number | undefined {
+  if (typeof frame === 'string') {
+    return frame.length
+  }
+  if (frame instanceof ArrayBuffer) {
+    return frame.byteLength
+  }
+  if (typeof Blob !== 'undefined' && frame instanceof Blob) {
+    return frame.size
+  }
+  return undefined
+}
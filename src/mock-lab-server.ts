@@ -0,0 +1,333 @@
+/**
+ * Scriptable fake lab server for tests and local development, which runs in memory
+ * and is connected to with `websocketClass: server.websocketClass`, in the browser,
+ * jsdom and node alike.
+ */
+
+import { Codec, Frame, jsonCodec } from './codecs'
+import { SendData } from './lab-gui-websocket'
+import { defaultTimers, Timers } from './timers'
+import { ReadyState, WebSocketConstructor, WebSocketLike } from './websocket-like'
+
+export interface MockLabServerOptions {
+  /** Milliseconds every frame and event takes between client and server, default 0. */
+  latency?: number
+  /** Codec to decode the received and encode the sent messages, default jsonCodec. */
+  codec?: Codec
+  /** Timer functions used to deliver the frames and events. */
+  timers?: Timers
+}
+
+/**
+ * Messages sent back to the client by a handler, which can also be raw frames,
+ * e.g. to test how broken frames are handled.
+ */
+export type MockReply = object | Frame | (object | Frame)[] | void
+
+/**
+ * Handler of the messages with a given status
+ *
+ * @param message the received message
+ * @param connection connection the message was received on
+ */
+export type MockStatusHandler = (message: SendData, connection: MockConnection) => MockReply
+
+/**
+ * Handler of new connections, e.g. to send the current state of the lab
+ *
+ * @param connection the new connection
+ */
+export type MockConnectionHandler = (connection: MockConnection) => MockReply
+
+export class MockLabServer {
+  /**
+   * WebSocket class, whose websockets connect to this server,
+   * to be passed as `websocketClass` to LabGuiWebsocket.
+   */
+  public readonly websocketClass: WebSocketConstructor
+  /** Number of websockets, which tried to connect, including the refused ones. */
+  public connectionAttempts: number = 0
+  private handlers: { [status: string]: MockStatusHandler } = {}
+  private connectionHandlers: MockConnectionHandler[] = []
+  private openConnections: MockConnection[] = []
+  private receivedMessages: SendData[] = []
+  private refusal = { attempts: 0, code: 1006, reason: '' }
+
+  settings: Required<MockLabServerOptions> = {
+    latency: 0,
+    codec: jsonCodec,
+    timers: defaultTimers
+  }
+
+  constructor(options: MockLabServerOptions = {}) {
+    this.settings = { ...this.settings, ...options }
+    const server = this
+    this.websocketClass = class extends MockSocket {
+      constructor(url: string, protocols?: string | string[]) {
+        super(server, url, protocols)
+      }
+    }
+  }
+
+  /**
+   * Copy of all messages received by the server, in the order they arrived
+   */
+  public get received(): SendData[] {
+    return this.receivedMessages.slice()
+  }
+
+  /**
+   * The currently open connections
+   */
+  public get connections(): MockConnection[] {
+    return this.openConnections.slice()
+  }
+
+  /**
+   * Registers the handler of the messages with the given status, '*' for the messages
+   * without a handler of their own. The messages it returns are sent back to the client.
+   *
+   * @param status status of the handled messages or '*'
+   * @param handler function called with the message and its connection
+   */
+  public on(status: string, handler: MockStatusHandler): this {
+    this.handlers[status] = handler
+    return this
+  }
+
+  /**
+   * Registers a handler called for every new connection,
+   * the messages it returns are sent to the new client.
+   *
+   * @param handler function called with the new connection
+   */
+  public onConnection(handler: MockConnectionHandler): this {
+    this.connectionHandlers.push(handler)
+    return this
+  }
+
+  /**
+   * Sends a message to all open connections
+   *
+   * @param message message object or raw frame
+   */
+  public broadcast(message: object | Frame): void {
+    this.openConnections.forEach(connection => connection.send(message))
+  }
+
+  /**
+   * Closes all open connections from the server side, like a crash or restart of the lab.
+   *
+   * @param code close code, default 1006 for an abnormal closure
+   * @param reason close reason
+   */
+  public disconnect(code: number = 1006, reason: string = ''): void {
+    this.connections.forEach(connection => connection.close(code, reason))
+  }
+
+  /**
+   * Lets the next connection attempts fail, like a lab which is still starting.
+   *
+   * @param attempts number of connection attempts to refuse
+   * @param code close code of the refused attempts, default 1006
+   * @param reason close reason of the refused attempts
+   */
+  public refuse(attempts: number, code: number = 1006, reason: string = ''): void {
+    this.refusal = { attempts, code, reason }
+  }
+
+  /**
+   * Forgets the received messages
+   */
+  public clearReceived(): void {
+    this.receivedMessages = []
+  }
+
+  /**
+   * Called by a new websocket to open its connection or fail to do so
+   */
+  connect(socket: MockSocket): void {
+    this.connectionAttempts++
+    if (this.refusal.attempts > 0) {
+      this.refusal.attempts--
+      const { code, reason } = this.refusal
+      this.deliver(() => socket.closed(code, reason))
+      return
+    }
+    this.deliver(() => {
+      if (socket.readyState !== ReadyState.CONNECTING) {
+        return
+      }
+      const connection = new MockConnection(this, socket)
+      this.openConnections.push(connection)
+      socket.opened(connection)
+      this.connectionHandlers.forEach(handler => connection.send(handler(connection)))
+    })
+  }
+
+  /**
+   * Called with the frames sent by the client, once they arrived. Frames,
+   * which can't be decoded, are ignored.
+   */
+  receive(connection: MockConnection, frame: Frame): void {
+    let message: SendData
+    try {
+      message = this.settings.codec.decode(frame) as SendData
+    } catch (err) {
+      return
+    }
+    this.receivedMessages.push(message)
+    const handler = this.handlers[message.status] || this.handlers['*']
+    if (handler) {
+      connection.send(handler(message, connection))
+    }
+  }
+
+  /**
+   * Removes a closed connection
+   */
+  remove(connection: MockConnection): void {
+    this.openConnections = this.openConnections.filter(open => open !== connection)
+  }
+
+  /**
+   * Calls the callback once the latency passed
+   */
+  deliver(callback: () => void): void {
+    this.settings.timers.setTimeout(callback, this.settings.latency)
+  }
+}
+
+/**
+ * Server side of a connection to the MockLabServer
+ */
+export class MockConnection {
+  /** Url the client connected to. */
+  public readonly url: string
+  /** Subprotocols requested by the client. */
+  public readonly protocols: string[]
+
+  constructor(private server: MockLabServer, private socket: MockSocket) {
+    this.url = socket.url
+    this.protocols = socket.protocols
+  }
+
+  /**
+   * Whether the connection is still open on the server side
+   */
+  public get isOpen(): boolean {
+    return this.server.connections.indexOf(this) !== -1
+  }
+
+  /**
+   * Sends messages to the client, message objects are encoded with the codec of the server,
+   * frames are sent as they are.
+   *
+   * @param reply message, raw frame or an array of them
+   */
+  public send(reply: MockReply): void {
+    if (reply === undefined || !this.isOpen) {
+      return
+    }
+    const messages = Array.isArray(reply) ? reply : [reply]
+    messages.forEach(message => {
+      const frame =
+        typeof message === 'string' || message instanceof ArrayBuffer
+          ? message
+          : this.server.settings.codec.encode(message)
+      this.server.deliver(() => this.socket.received(frame))
+    })
+  }
+
+  /**
+   * Closes the connection from the server side
+   *
+   * @param code close code, default 1000
+   * @param reason close reason
+   */
+  public close(code: number = 1000, reason: string = ''): void {
+    if (!this.isOpen) {
+      return
+    }
+    this.server.remove(this)
+    this.server.deliver(() => this.socket.closed(code, reason))
+  }
+}
+
+/**
+ * Client side of a connection to the MockLabServer
+ */
+class MockSocket implements WebSocketLike {
+  public binaryType: string = 'blob'
+  public readyState: number = ReadyState.CONNECTING
+  public onopen: ((event: any) => any) | null = null
+  public onclose: ((event: any) => any) | null = null
+  public onmessage: ((event: any) => any) | null = null
+  public onerror: ((event: any) => any) | null = null
+  public readonly protocols: string[]
+  private connection: MockConnection | null = null
+
+  constructor(private server: MockLabServer, public url: string, protocols?: string | string[]) {
+    this.protocols = protocols === undefined ? [] : ([] as string[]).concat(protocols)
+    server.connect(this)
+  }
+
+  public send(data: string | ArrayBuffer): void {
+    if (this.readyState === ReadyState.CONNECTING) {
+      throw new Error("Failed to execute 'send' on 'WebSocket': Still in CONNECTING state.")
+    }
+    const connection = this.connection
+    if (this.readyState === ReadyState.OPEN && connection !== null) {
+      this.server.deliver(() => {
+        if (connection.isOpen) {
+          this.server.receive(connection, data)
+        }
+      })
+    }
+  }
+
+  public close(code?: number, reason?: string): void {
+    if (this.readyState === ReadyState.CLOSING || this.readyState === ReadyState.CLOSED) {
+      return
+    }
+    this.readyState = ReadyState.CLOSING
+    if (this.connection !== null) {
+      this.server.remove(this.connection)
+    }
+    this.server.deliver(() => this.closed(code || 1000, reason || ''))
+  }
+
+  opened(connection: MockConnection): void {
+    this.connection = connection
+    this.readyState = ReadyState.OPEN
+    this.call(this.onopen, { type: 'open' })
+  }
+
+  received(frame: Frame): void {
+    if (this.readyState !== ReadyState.OPEN) {
+      return
+    }
+    const data =
+      typeof frame !== 'string' && this.binaryType === 'blob' && typeof Blob !== 'undefined'
+        ? new Blob([frame])
+        : frame
+    this.call(this.onmessage, { type: 'message', data })
+  }
+
+  closed(code: number, reason: string): void {
+    if (this.readyState === ReadyState.CLOSED) {
+      return
+    }
+    this.readyState = ReadyState.CLOSED
+    if (code === 1006) {
+      this.call(this.onerror, { type: 'error' })
+    }
+    this.call(this.onclose, { type: 'close', code, reason, wasClean: code !== 1006 })
+  }
+
+  private call(handler: ((event: any) => any) | null, event: any): void {
+    if (handler) {
+      handler(event)
+    }
+  }
+}
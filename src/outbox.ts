@@ -0,0 +1,168 @@
+/**
+ * Buffer for outgoing messages, which are sent while the websocket isn't open.
+ * The queued messages get flushed in order, as soon as the connection is (re)established.
+ */
+
+import { NotConnectedError, TimeoutError } from './errors'
+import { defaultTimers, TimerHandle, Timers } from './timers'
+
+/**
+ * What to do with a message, when the outbox is already full.
+ *  - 'drop-oldest': remove the oldest queued message to make room for the new one
+ *  - 'drop-newest': discard the message which should be queued
+ *  - 'reject': refuse the message by throwing an error in `send()`
+ */
+export type OutboxOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'reject'
+
+export interface OutboxOptions {
+  /** The maximum number of queued messages, default 100. */
+  maxSize?: number
+  /** The number of milliseconds a queued message stays valid. Unlimited if null. */
+  ttl?: number | null
+  /** The behavior when the outbox is full, default 'drop-oldest'. */
+  overflow?: OutboxOverflowPolicy
+}
+
+interface OutboxEntry<T> {
+  data: T
+  resolve: () => void
+  reject: (error: Error) => void
+  timer: TimerHandle | null
+}
+
+export class Outbox<T> {
+  private entries: OutboxEntry<T>[] = []
+
+  settings: Required<OutboxOptions> = {
+    maxSize: 100,
+    ttl: null,
+    overflow: 'drop-oldest'
+  }
+
+  constructor(options: OutboxOptions = {}, private timers: Timers = defaultTimers) {
+    this.settings = { ...this.settings, ...options }
+  }
+
+  /**
+   * Number of messages waiting to be sent
+   */
+  public get size(): number {
+    return this.entries.length
+  }
+
+  /**
+   * Queues data to be sent later on.
+   * The returned promise resolves when the data was handed to the websocket
+   * and rejects if the data got dropped, expired or the outbox was cleared.
+   *
+   * @param data data to be sent on the next flush
+   */
+  public push(data: T): Promise<void> {
+    if (this.entries.length >= this.settings.maxSize) {
+      switch (this.settings.overflow) {
+        case 'reject':
+          throw new NotConnectedError('The outbox is full, the message was rejected.', data)
+        case 'drop-newest':
+          return this.handled(
+            Promise.reject(
+              new NotConnectedError('The outbox is full, the message was dropped.', data)
+            )
+          )
+        default:
+          const oldest = this.entries[0]
+          this.remove(
+            oldest,
+            new NotConnectedError('The outbox is full, the message was dropped.', oldest.data)
+          )
+      }
+    }
+
+    const sent = new Promise<void>((resolve, reject) => {
+      const entry: OutboxEntry<T> = { data, resolve, reject, timer: null }
+      if (this.settings.ttl !== null) {
+        entry.timer = this.timers.setTimeout(() => {
+          this.remove(
+            entry,
+            new TimeoutError('The queued message expired before it could be sent.', data)
+          )
+        }, this.settings.ttl)
+      }
+      this.entries.push(entry)
+    })
+    return this.handled(sent)
+  }
+
+  /**
+   * Sends all queued data in order, using the given send function.
+   * If it returns a promise, e.g. since the data waits for a send policy,
+   * the promise of the queued data settles with it.
+   *
+   * @param send function which transmits a single queued item
+   */
+  public flush(send: (data: T) => unknown): void {
+    const entries = this.entries
+    this.entries = []
+    for (const entry of entries) {
+      this.clearTimer(entry)
+      try {
+        const sent = send(entry.data)
+        if (sent instanceof Promise) {
+          sent.then(entry.resolve, entry.reject)
+        } else {
+          entry.resolve()
+        }
+      } catch (err) {
+        entry.reject(err)
+      }
+    }
+  }
+
+  /**
+   * Discards all queued data, rejecting their promises with the given reason.
+   *
+   * @param reason message of the error the pending promises are rejected with
+   */
+  public clear(reason: string): void {
+    const entries = this.entries
+    this.entries = []
+    for (const entry of entries) {
+      this.clearTimer(entry)
+      entry.reject(new NotConnectedError(reason, entry.data))
+    }
+  }
+
+  /**
+   * Removes the queued data matching the predicate, rejecting their promises with the given reason.
+   *
+   * @param match returns whether the queued data is to be removed
+   * @param reason message of the error the promises are rejected with
+   */
+  public discard(match: (data: T) => boolean, reason: string): void {
+    this.entries
+      .filter(entry => match(entry.data))
+      .forEach(entry => this.remove(entry, new NotConnectedError(reason, entry.data)))
+  }
+
+  private remove(entry: OutboxEntry<T>, error: Error): void {
+    this.entries = this.entries.filter(queued => queued !== entry)
+    this.clearTimer(entry)
+    entry.reject(error)
+  }
+
+  private clearTimer(entry: OutboxEntry<T>): void {
+    if (entry.timer !== null) {
+      this.timers.clearTimeout(entry.timer)
+      entry.timer = null
+    }
+  }
+
+  /**
+   * Marks the promise as handled, so dropped messages which nobody
+   * waits for don't end up as unhandled rejections.
+   */
+  private handled(promise: Promise<void>): Promise<void> {
+    /* tslint:disable:no-empty */
+    promise.catch(() => {})
+    return promise
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Recording of the frames and lifecycle events of websocket connections, which can be
+ * exported as NDJSON and played back with the replay transport, see createReplayWebSocket.
+ */
+
+import { blobToArrayBuffer, Frame, isBlob } from './codecs'
+import { defaultTimers, Timers } from './timers'
+import { WebSocketConstructor, WebSocketLike } from './websocket-like'
+
+/** Single entry of a recording */
+export interface RecordedEvent {
+  /**
+   * 'connect' when a websocket got created, 'open', 'close' and 'error' for its events,
+   * 'in' for received and 'out' for sent frames.
+   */
+  type: 'connect' | 'open' | 'close' | 'error' | 'in' | 'out'
+  /** Milliseconds since the start of the recording. */
+  time: number
+  /** Url of the websocket, set for 'connect'. */
+  url?: string
+  /** The frame for 'in' and 'out', base64 encoded if it is binary. */
+  data?: string
+  /** Whether the frame is binary. */
+  binary?: boolean
+  /** Close code, set for 'close'. */
+  code?: number
+  /** Close reason, set for 'close'. */
+  reason?: string
+}
+
+export interface RecorderOptions {
+  /** The maximum number of entries, the oldest ones are dropped first. Unlimited if null (default). */
+  maxEntries?: number | null
+}
+
+export class Recorder {
+  private recorded: RecordedEvent[] = []
+  private startedAt: number
+
+  settings: Required<RecorderOptions> = {
+    maxEntries: null
+  }
+
+  constructor(options: RecorderOptions = {}, private timers: Timers = defaultTimers) {
+    this.settings = { ...this.settings, ...options }
+    this.startedAt = timers.now()
+  }
+
+  /**
+   * Copy of the recorded entries in the order they happened
+   */
+  public get entries(): RecordedEvent[] {
+    return this.recorded.slice()
+  }
+
+  /**
+   * Returns a WebSocket class, which records everything passing through the websockets
+   * of the given class, e.g. `websocketClass: recorder.wrap(WebSocket)`.
+   *
+   * @param websocketClass implementation of the real websocket
+   */
+  public wrap(websocketClass: WebSocketConstructor): WebSocketConstructor {
+    const recorder = this
+    return class extends RecordingSocket {
+      constructor(url: string, protocols?: string | string[]) {
+        super(recorder, new websocketClass(url, protocols), url)
+      }
+    }
+  }
+
+  /**
+   * Adds an entry to the recording and returns it.
+   *
+   * @param entry the entry without the time, which is added
+   */
+  public record(entry: Pick<RecordedEvent, Exclude<keyof RecordedEvent, 'time'>>): RecordedEvent {
+    const recorded: RecordedEvent = { ...entry, time: this.timers.now() - this.startedAt }
+    this.recorded.push(recorded)
+    const maxEntries = this.settings.maxEntries
+    if (maxEntries !== null && this.recorded.length > maxEntries) {
+      this.recorded.splice(0, this.recorded.length - maxEntries)
+    }
+    return recorded
+  }
+
+  /**
+   * Adds a sent or received frame to the recording. Blob frames are added right away,
+   * but their data is only filled in after the Blob was read.
+   *
+   * @param type 'in' for received and 'out' for sent frames
+   * @param frame the data of the frame
+   */
+  public recordFrame(type: 'in' | 'out', frame: Frame | Blob): void {
+    if (isBlob(frame)) {
+      const entry = this.record({ type, data: '', binary: true })
+      blobToArrayBuffer(frame).then(
+        buffer => (entry.data = encodeBase64(buffer)),
+        /* tslint:disable:no-empty */
+        () => {}
+      )
+    } else {
+      this.record({ type, ...encodeFrame(frame) })
+    }
+  }
+
+  /**
+   * Removes all entries and restarts the time of the recording
+   */
+  public clear(): void {
+    this.recorded = []
+    this.startedAt = this.timers.now()
+  }
+
+  /**
+   * Returns the recording as newline delimited JSON, one entry per line
+   */
+  public toNDJSON(): string {
+    return this.recorded.map(entry => JSON.stringify(entry)).join('\n')
+  }
+}
+
+/**
+ * Parses a recording exported with Recorder.toNDJSON(), empty lines are ignored.
+ *
+ * @param ndjson newline delimited JSON
+ */
+export function parseRecording(ndjson: string): RecordedEvent[] {
+  return ndjson
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .map(line => JSON.parse(line) as RecordedEvent)
+}
+
+/**
+ * Returns the data of a frame as it is stored in a recording
+ *
+ * @param frame text or binary frame
+ */
+export function encodeFrame(frame: Frame): { data: string; binary: boolean } {
+  return typeof frame === 'string'
+    ? { data: frame, binary: false }
+    : { data: encodeBase64(frame), binary: true }
+}
+
+/**
+ * Returns the frame of an 'in' or 'out' entry of a recording
+ *
+ * @param entry recorded entry
+ */
+export function decodeFrame(entry: RecordedEvent): Frame {
+  const data = entry.data || ''
+  return entry.binary ? decodeBase64(data) : data
+}
+
+/**
+ * Websocket, which passes everything on to the real websocket and records it
+ */
+class RecordingSocket implements WebSocketLike {
+  public onopen: ((event: any) => any) | null = null
+  public onclose: ((event: any) => any) | null = null
+  public onmessage: ((event: any) => any) | null = null
+  public onerror: ((event: any) => any) | null = null
+
+  constructor(private recorder: Recorder, private inner: WebSocketLike, url: string) {
+    recorder.record({ type: 'connect', url })
+    inner.onopen = event => {
+      recorder.record({ type: 'open' })
+      this.call(this.onopen, event)
+    }
+    inner.onmessage = event => {
+      recorder.recordFrame('in', event.data)
+      this.call(this.onmessage, event)
+    }
+    inner.onerror = event => {
+      recorder.record({ type: 'error' })
+      this.call(this.onerror, event)
+    }
+    inner.onclose = event => {
+      recorder.record({ type: 'close', code: event.code, reason: event.reason })
+      this.call(this.onclose, event)
+    }
+  }
+
+  public get binaryType(): string {
+    return this.inner.binaryType
+  }
+
+  public set binaryType(binaryType: string) {
+    this.inner.binaryType = binaryType
+  }
+
+  public get readyState(): number {
+    return this.inner.readyState
+  }
+
+  public send(data: string | ArrayBuffer): void {
+    this.recorder.recordFrame('out', data)
+    this.inner.send(data)
+  }
+
+  public close(code?: number, reason?: string): void {
+    this.inner.close(code, reason)
+  }
+
+  private call(handler: ((event: any) => any) | null, event: any): void {
+    if (handler) {
+      handler(event)
+    }
+  }
+}
+
+const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+// btoa and Buffer aren't available everywhere, so binary frames are encoded by hand
+function encodeBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer)
+  let encoded = ''
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0)
+    encoded += base64Chars[(chunk >> 18) & 63] + base64Chars[(chunk >> 12) & 63]
+    encoded += i + 1 < bytes.length ? base64Chars[(chunk >> 6) & 63] : '='
+    encoded += i + 2 < bytes.length ? base64Chars[chunk & 63] : '='
+  }
+  return encoded
+}
+
+function decodeBase64(encoded: string): ArrayBuffer {
+  const chars = encoded.replace(/=+$/, '')
+  const bytes = new Uint8Array(Math.floor((chars.length * 3) / 4))
+  let chunk = 0
+  let bits = 0
+  let index = 0
+  for (const char of chars) {
+    chunk = (chunk << 6) | base64Chars.indexOf(char)
+    bits += 6
+    if (bits >= 8) {
+      bits -= 8
+      bytes[index++] = (chunk >> bits) & 255
+    }
+  }
+  return bytes.buffer
+}
@@ -0,0 +1,167 @@
+/**
+ * Transport, which plays a recording of the Recorder back instead of connecting to a server,
+ * e.g. to reproduce a bug or to demo the GUI without the lab hardware.
+ */
+
+import { decodeFrame, parseRecording, RecordedEvent } from './recorder'
+import { defaultTimers, TimerHandle, Timers } from './timers'
+import { ReadyState, WebSocketConstructor, WebSocketLike } from './websocket-like'
+
+export interface ReplayOptions {
+  /** The playback speed, 1 for the original timing, 2 for twice as fast etc., default 1. */
+  speed?: number
+  /** Start over with the first connection of the recording after the last one, default false. */
+  loop?: boolean
+  /** Timer functions used to schedule the playback. */
+  timers?: Timers
+}
+
+/**
+ * Returns a WebSocket class to be used as `websocketClass`, whose websockets play back
+ * the recorded connections one after another: the first websocket the first recorded
+ * connection, a reconnect the next one and so on.
+ * Received frames, open, close and error events are replayed, sent frames are ignored.
+ * Once all connections were played back (and loop isn't set), new websockets fail to connect.
+ *
+ * @param recording entries of a Recorder or its NDJSON export
+ * @param options e.g. the playback speed
+ */
+export function createReplayWebSocket(
+  recording: RecordedEvent[] | string,
+  options: ReplayOptions = {}
+): WebSocketConstructor {
+  const settings: Required<ReplayOptions> = {
+    speed: 1,
+    loop: false,
+    timers: defaultTimers,
+    ...options
+  }
+  const entries = typeof recording === 'string' ? parseRecording(recording) : recording
+  const connections: RecordedEvent[][] = []
+  entries.forEach(entry => {
+    if (entry.type === 'connect') {
+      connections.push([entry])
+    } else if (connections.length > 0) {
+      connections[connections.length - 1].push(entry)
+    }
+  })
+  let next = 0
+  const take = (): RecordedEvent[] | null => {
+    if (next >= connections.length && settings.loop) {
+      next = 0
+    }
+    return next < connections.length ? connections[next++] : null
+  }
+  return class extends ReplaySocket {
+    constructor(url: string, protocols?: string | string[]) {
+      super(take(), settings)
+    }
+  }
+}
+
+/**
+ * Websocket playing back a single recorded connection
+ */
+class ReplaySocket implements WebSocketLike {
+  public binaryType: string = 'blob'
+  public readyState: number = ReadyState.CONNECTING
+  public onopen: ((event: any) => any) | null = null
+  public onclose: ((event: any) => any) | null = null
+  public onmessage: ((event: any) => any) | null = null
+  public onerror: ((event: any) => any) | null = null
+  private timer: TimerHandle | null = null
+
+  constructor(
+    private connection: RecordedEvent[] | null,
+    private settings: Required<ReplayOptions>
+  ) {
+    if (connection === null) {
+      this.schedule(0, () => this.closed(1006, 'The recording has ended.'))
+    } else {
+      this.play(1)
+    }
+  }
+
+  /**
+   * Sent frames don't change the playback
+   */
+  /* tslint:disable:no-empty */
+  public send(data: string | ArrayBuffer): void {}
+
+  public close(code?: number, reason?: string): void {
+    if (this.readyState === ReadyState.CLOSING || this.readyState === ReadyState.CLOSED) {
+      return
+    }
+    this.readyState = ReadyState.CLOSING
+    this.schedule(0, () => this.closed(code || 1000, reason || ''))
+  }
+
+  /**
+   * Schedules the entry with the given index, relative to the time of the previous entry
+   */
+  private play(index: number): void {
+    const connection = this.connection as RecordedEvent[]
+    const entry = connection[index]
+    if (entry === undefined) {
+      // the recording ended while the connection was open, so it stays open
+      return
+    }
+    const delay = (entry.time - connection[index - 1].time) / this.settings.speed
+    this.schedule(delay, () => {
+      this.replay(entry)
+      if (this.readyState !== ReadyState.CLOSED) {
+        this.play(index + 1)
+      }
+    })
+  }
+
+  private replay(entry: RecordedEvent): void {
+    switch (entry.type) {
+      case 'open':
+        this.readyState = ReadyState.OPEN
+        this.call(this.onopen, { type: 'open' })
+        break
+      case 'in':
+        this.call(this.onmessage, { type: 'message', data: this.frameOf(entry) })
+        break
+      case 'error':
+        this.call(this.onerror, { type: 'error' })
+        break
+      case 'close':
+        this.closed(entry.code || 1006, entry.reason || '')
+        break
+    }
+  }
+
+  /**
+   * The recorded frame, binary frames as Blob or ArrayBuffer depending on the binaryType
+   */
+  private frameOf(entry: RecordedEvent): any {
+    const frame = decodeFrame(entry)
+    if (typeof frame !== 'string' && this.binaryType === 'blob' && typeof Blob !== 'undefined') {
+      return new Blob([frame])
+    }
+    return frame
+  }
+
+  private closed(code: number, reason: string): void {
+    this.readyState = ReadyState.CLOSED
+    this.call(this.onclose, { type: 'close', code, reason, wasClean: code === 1000 })
+  }
+
+  private schedule(delay: number, callback: () => void): void {
+    if (this.timer !== null) {
+      this.settings.timers.clearTimeout(this.timer)
+    }
+    this.timer = this.settings.timers.setTimeout(() => {
+      this.timer = null
+      callback()
+    }, delay)
+  }
+
+  private call(handler: ((event: any) => any) | null, event: any): void {
+    if (handler) {
+      handler(event)
+    }
+  }
+}
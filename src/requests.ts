@@ -0,0 +1,187 @@
+/**
+ * Bookkeeping of requests sent with LabGuiWebsocket.request(), which wait for
+ * a reply from the server carrying the same correlation id.
+ */
+
+import { NotConnectedError, ProtocolError, TimeoutError } from './errors'
+import { defaultTimers, TimerHandle, Timers } from './timers'
+
+export interface RequestOptions {
+  /** The number of milliseconds to wait for the reply, before the request is rejected. */
+  timeout?: number
+}
+
+export interface UpdateOptions extends RequestOptions {
+  /** JSON Pointer of the object in the state mirror, which the data of the update is applied to. */
+  path?: string
+}
+
+/** Reply of the server to a request, matched by its `id` */
+export interface ReplyData {
+  status: string
+  id: string
+  data?: any
+  /** Set by the server if the request failed */
+  error?: any
+}
+
+interface PendingRequest {
+  resolve: (reply: ReplyData) => void
+  reject: (error: Error) => void
+  timer: TimerHandle
+  // whether the request was handed to the websocket
+  sent: boolean
+}
+
+export class PendingRequests {
+  private pending: { [id: string]: PendingRequest } = {}
+  private counter: number = 0
+  // distinguishes the ids of different clients in the server logs
+  private prefix: string = Math.random().toString(36).slice(2, 8)
+
+  constructor(private timers: Timers = defaultTimers) {}
+
+  /**
+   * Number of requests waiting for a reply
+   */
+  public get size(): number {
+    return Object.keys(this.pending).length
+  }
+
+  /**
+   * Returns a new correlation id, unique for this instance
+   */
+  public nextId(): string {
+    this.counter++
+    return `${this.prefix}-${this.counter}`
+  }
+
+  /**
+   * Registers a request waiting for its reply.
+   * The returned promise resolves with the reply, or rejects if the
+   * reply signals an error or doesn't arrive within the timeout.
+   *
+   * @param id correlation id of the request
+   * @param timeout milliseconds to wait for the reply
+   */
+  public add(id: string, timeout: number): Promise<ReplyData> {
+    return new Promise<ReplyData>((resolve, reject) => {
+      const timer = this.timers.setTimeout(() => {
+        this.reject(
+          id,
+          new TimeoutError(`The request '${id}' timed out after ${timeout}ms.`, { id, timeout })
+        )
+      }, timeout)
+      this.pending[id] = { resolve, reject, timer, sent: false }
+    })
+  }
+
+  /**
+   * Settles the request matching the id of the reply.
+   * Returns whether the reply belonged to a pending request.
+   *
+   * @param reply message object received from the server
+   */
+  public resolve(reply: ReplyData): boolean {
+    const request = this.take(reply.id)
+    if (!request) {
+      return false
+    }
+    if (reply.error !== undefined && reply.error !== null) {
+      const reason = typeof reply.error === 'string' ? reply.error : JSON.stringify(reply.error)
+      request.reject(new ProtocolError(`The request '${reply.id}' failed: ${reason}`, reply))
+    } else {
+      request.resolve(reply)
+    }
+    return true
+  }
+
+  /**
+   * Rejects a single pending request
+   *
+   * @param id correlation id of the request
+   * @param error error the request is rejected with
+   */
+  public reject(id: string, error: Error): void {
+    const request = this.take(id)
+    if (request) {
+      request.reject(error)
+    }
+  }
+
+  /**
+   * Settles a request together with the one, which replaced it before it was sent,
+   * e.g. by coalescing. Rejects it, if the replacement isn't a pending request.
+   *
+   * @param id correlation id of the replaced request
+   * @param replacement correlation id of the request replacing it, if any
+   */
+  public follow(id: string, replacement: string | undefined): void {
+    const request = this.take(id)
+    if (!request) {
+      return
+    }
+    const next = replacement === undefined ? undefined : this.pending[replacement]
+    if (!next) {
+      request.reject(
+        new NotConnectedError(
+          `The request '${id}' was replaced by a newer message before it was sent.`,
+          { id, replacement }
+        )
+      )
+      return
+    }
+    const { resolve, reject } = next
+    next.resolve = reply => {
+      resolve(reply)
+      request.resolve(reply)
+    }
+    // the newer request is rejected first, so optimistic updates are rolled back newest first
+    next.reject = error => {
+      reject(error)
+      request.reject(error)
+    }
+  }
+
+  /**
+   * Marks a request as handed to the websocket
+   *
+   * @param id correlation id of the request
+   */
+  public sent(id: string): void {
+    const request = this.pending[id]
+    if (request) {
+      request.sent = true
+    }
+  }
+
+  /**
+   * Rejects the pending requests, which were handed to the websocket.
+   * Requests, which still wait to be sent, keep waiting for their reply.
+   *
+   * @param reason message of the error the requests are rejected with
+   */
+  public rejectSent(reason: string): void {
+    Object.keys(this.pending)
+      .filter(id => this.pending[id].sent)
+      .forEach(id => this.reject(id, new NotConnectedError(reason)))
+  }
+
+  /**
+   * Rejects all pending requests
+   *
+   * @param reason message of the error the requests are rejected with
+   */
+  public rejectAll(reason: string): void {
+    Object.keys(this.pending).forEach(id => this.reject(id, new NotConnectedError(reason)))
+  }
+
+  private take(id: string): PendingRequest | undefined {
+    const request = this.pending[id]
+    if (request) {
+      this.timers.clearTimeout(request.timer)
+      delete this.pending[id]
+    }
+    return request
+  }
+}
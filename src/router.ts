@@ -0,0 +1,131 @@
+/**
+ * Dispatches received message objects to handlers, which are registered
+ * for the `status` of the message.
+ */
+
+/**
+ * Maps each status to the type of the `data` sent along with it, e.g.
+ *   interface LaserStatus { laser_status: { power: number }, error: string }
+ */
+export type StatusMap = { [status: string]: any }
+
+/** Message object of the server, in the same form as SendData */
+export interface StatusMessage<S extends string = string, D = any> {
+  status: S
+  data: D
+  [key: string]: any
+}
+
+export type StatusHandler<S extends string = string, D = any> = (
+  data: D,
+  message: StatusMessage<S, D>
+) => void
+
+/** Status of the handlers which are called for every message */
+export const WILDCARD = '*'
+
+interface HandlerEntry {
+  handler: StatusHandler
+  once: boolean
+}
+
+export class MessageRouter<M extends StatusMap = StatusMap> {
+  private handlers: { [status: string]: HandlerEntry[] } = {}
+  private fallbacks: StatusHandler[] = []
+
+  /**
+   * Registers a handler for messages with the given status.
+   * Handlers registered for '*' (WILDCARD) are called for every message.
+   * Returns a function which removes the handler again.
+   *
+   * @param status status of the messages to handle
+   * @param handler function called with the data and the whole message object
+   */
+  public on<K extends keyof M & string>(status: K, handler: StatusHandler<K, M[K]>): () => void
+  public on(status: typeof WILDCARD, handler: StatusHandler): () => void
+  public on(status: string, handler: StatusHandler<any>): () => void {
+    return this.add(status, handler, false)
+  }
+
+  /**
+   * Same as `on`, but the handler is removed after it was called once.
+   *
+   * @param status status of the messages to handle
+   * @param handler function called with the data and the whole message object
+   */
+  public once<K extends keyof M & string>(status: K, handler: StatusHandler<K, M[K]>): () => void
+  public once(status: typeof WILDCARD, handler: StatusHandler): () => void
+  public once(status: string, handler: StatusHandler<any>): () => void {
+    return this.add(status, handler, true)
+  }
+
+  /**
+   * Removes a handler registered with `on` or `once`.
+   * If no handler is given, all handlers of that status are removed.
+   *
+   * @param status status the handler was registered for
+   * @param handler handler to remove
+   */
+  public off<K extends keyof M & string>(status: K, handler?: StatusHandler<K, M[K]>): void
+  public off(status: typeof WILDCARD, handler?: StatusHandler): void
+  public off(status: string, handler?: StatusHandler<any>): void {
+    if (handler === undefined) {
+      delete this.handlers[status]
+    } else if (this.handlers[status]) {
+      this.handlers[status] = this.handlers[status].filter(entry => entry.handler !== handler)
+    }
+  }
+
+  /**
+   * Registers a handler for messages, for whose status no handler is registered.
+   * Returns a function which removes the handler again.
+   *
+   * @param handler function called with the data and the whole message object
+   */
+  public fallback(handler: StatusHandler): () => void {
+    this.fallbacks.push(handler)
+    return () => {
+      this.fallbacks = this.fallbacks.filter(fallback => fallback !== handler)
+    }
+  }
+
+  /**
+   * Calls all handlers matching the status of the message object.
+   * Returns whether any handler was called.
+   *
+   * @param msgObject message object received from the server
+   */
+  public dispatch(msgObject: object): boolean {
+    const message = (msgObject || {}) as StatusMessage
+    const status = typeof message.status === 'string' ? message.status : null
+    let handled = false
+    if (status !== null && status !== WILDCARD) {
+      handled = this.call(status, message)
+    }
+    if (!handled) {
+      const fallbacks = this.fallbacks.slice()
+      fallbacks.forEach(fallback => fallback(message.data, message))
+      handled = fallbacks.length > 0
+    }
+    return this.call(WILDCARD, message) || handled
+  }
+
+  private add(status: string, handler: StatusHandler, once: boolean): () => void {
+    const entry: HandlerEntry = { handler, once }
+    this.handlers[status] = (this.handlers[status] || []).concat(entry)
+    return () => {
+      if (this.handlers[status]) {
+        this.handlers[status] = this.handlers[status].filter(added => added !== entry)
+      }
+    }
+  }
+
+  private call(status: string, message: StatusMessage): boolean {
+    const entries = this.handlers[status] || []
+    if (entries.some(entry => entry.once)) {
+      this.handlers[status] = entries.filter(entry => !entry.once)
+    }
+    entries.forEach(entry => entry.handler(message.data, message))
+    return entries.length > 0
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Pacing of the messages sent over an open connection, so high-frequency controls like
+ * sliders don't flood slow servers: per-status coalescing, throttling and debouncing,
+ * a limit of messages per second and a pause while the websocket's buffer is full.
+ * Messages, which don't have to wait, are sent right away.
+ */
+
+import { NotConnectedError } from './errors'
+import { defaultTimers, TimerHandle, Timers } from './timers'
+
+export interface SendPolicy {
+  /** Only the latest message of the status is kept, while it waits to be sent, default false. */
+  coalesce?: boolean
+  /** The minimum number of milliseconds between two messages of the status. */
+  throttle?: number
+  /**
+   * The number of milliseconds a message of the status waits, before it is sent.
+   * A newer message of the status replaces the waiting one and waits again.
+   */
+  debounce?: number
+}
+
+export interface SendPolicyOptions {
+  /** The policies of the messages by their status. */
+  policies?: { [status: string]: SendPolicy }
+  /** The maximum number of messages per second, of all statuses. Unlimited if null (default). */
+  maxMessagesPerSecond?: number | null
+  /** Pause sending while the websocket buffers more bytes than this. Disabled if null (default). */
+  highWaterMark?: number | null
+  /** The number of milliseconds between the checks of the buffer while paused, default 50. */
+  drainInterval?: number
+}
+
+export interface SendQueueCallbacks<T> {
+  /** Hands a message to the websocket. */
+  send: (data: T) => void
+  /** Returns the number of bytes buffered by the websocket. */
+  bufferedAmount: () => number
+  /** Called when a waiting message got replaced by a newer one of its status. */
+  merged: (data: T, replacement: T) => void
+  /** Called when a waiting message got discarded by clear(). */
+  dropped: (data: T) => void
+}
+
+interface QueueEntry<T> {
+  data: T
+  // timestamp before which the message isn't sent, e.g. while debounced
+  notBefore: number
+  resolve: () => void
+  reject: (error: Error) => void
+}
+
+export class SendQueue<T extends { status: string }> {
+  private entries: QueueEntry<T>[] = []
+  private lastSent: { [status: string]: number } = {}
+  // send times of the last second, to keep to maxMessagesPerSecond
+  private sentTimes: number[] = []
+  private timer: TimerHandle | null = null
+
+  settings: Required<SendPolicyOptions> = {
+    policies: {},
+    maxMessagesPerSecond: null,
+    highWaterMark: null,
+    drainInterval: 50
+  }
+
+  constructor(
+    options: SendPolicyOptions,
+    private callbacks: SendQueueCallbacks<T>,
+    private timers: Timers = defaultTimers
+  ) {
+    this.settings = { ...this.settings, ...options }
+  }
+
+  /**
+   * Number of messages waiting to be sent
+   */
+  public get size(): number {
+    return this.entries.length
+  }
+
+  /**
+   * Sends the message, as soon as its policy, the rate limit and the buffer of the websocket
+   * allow it. The returned promise resolves when the message was handed to the websocket,
+   * the one of a replaced message with the one of the message replacing it.
+   *
+   * @param data message to send
+   */
+  public push(data: T): Promise<void> {
+    const policy = this.policyOf(data.status)
+    const notBefore = this.timers.now() + (policy.debounce || 0)
+    const replaces = policy.coalesce || policy.debounce !== undefined
+    const waiting = replaces
+      ? this.entries.find(entry => entry.data.status === data.status)
+      : undefined
+    const sent = new Promise<void>((resolve, reject) => {
+      if (waiting === undefined) {
+        this.entries.push({ data, notBefore, resolve, reject })
+        return
+      }
+      const replaced = waiting.data
+      const { resolve: resolveReplaced, reject: rejectReplaced } = waiting
+      waiting.data = data
+      waiting.notBefore = notBefore
+      waiting.resolve = () => {
+        resolveReplaced()
+        resolve()
+      }
+      waiting.reject = (error: Error) => {
+        rejectReplaced(error)
+        reject(error)
+      }
+      this.callbacks.merged(replaced, data)
+    })
+    /* tslint:disable:no-empty */
+    sent.catch(() => {})
+    this.pump()
+    return sent
+  }
+
+  /**
+   * Discards all waiting messages, rejecting their promises with the given reason.
+   *
+   * @param reason message of the error the pending promises are rejected with
+   */
+  public clear(reason: string): void {
+    this.stopTimer()
+    const entries = this.entries
+    this.entries = []
+    for (const entry of entries) {
+      this.callbacks.dropped(entry.data)
+      entry.reject(new NotConnectedError(reason, entry.data))
+    }
+  }
+
+  /**
+   * Removes the waiting messages matching the predicate, rejecting their promises
+   * with the given reason.
+   *
+   * @param match returns whether the waiting message is to be removed
+   * @param reason message of the error the promises are rejected with
+   */
+  public discard(match: (data: T) => boolean, reason: string): void {
+    const discarded = this.entries.filter(entry => match(entry.data))
+    this.entries = this.entries.filter(entry => discarded.indexOf(entry) === -1)
+    for (const entry of discarded) {
+      this.callbacks.dropped(entry.data)
+      entry.reject(new NotConnectedError(reason, entry.data))
+    }
+    this.pump()
+  }
+
+  /**
+   * Sends the waiting messages, which may be sent, and waits for the next one otherwise
+   */
+  private pump(): void {
+    this.stopTimer()
+    while (this.entries.length > 0) {
+      const now = this.timers.now()
+      const blocked = this.blockedFor(now)
+      if (blocked > 0) {
+        this.schedule(blocked)
+        return
+      }
+      // messages of a status are sent in order, so only the first one of each is a candidate
+      const candidates = this.entries.filter(
+        (entry, index) =>
+          this.entries.findIndex(other => other.data.status === entry.data.status) === index
+      )
+      const next = candidates.find(entry => this.readyAt(entry) <= now)
+      if (next === undefined) {
+        this.schedule(Math.min(...candidates.map(entry => this.readyAt(entry))) - now)
+        return
+      }
+      this.entries = this.entries.filter(entry => entry !== next)
+      this.lastSent[next.data.status] = now
+      this.sentTimes.push(now)
+      try {
+        this.callbacks.send(next.data)
+        next.resolve()
+      } catch (err) {
+        next.reject(err)
+      }
+    }
+  }
+
+  /**
+   * Milliseconds until anything may be sent again, 0 if it may be sent now
+   */
+  private blockedFor(now: number): number {
+    const { highWaterMark, maxMessagesPerSecond } = this.settings
+    if (highWaterMark !== null && this.callbacks.bufferedAmount() > highWaterMark) {
+      return this.settings.drainInterval
+    }
+    this.sentTimes = this.sentTimes.filter(time => time > now - 1000)
+    if (maxMessagesPerSecond !== null && this.sentTimes.length >= maxMessagesPerSecond) {
+      return this.sentTimes[this.sentTimes.length - maxMessagesPerSecond] + 1000 - now
+    }
+    return 0
+  }
+
+  /**
+   * Timestamp from which the message may be sent by its policy
+   */
+  private readyAt(entry: QueueEntry<T>): number {
+    const status = entry.data.status
+    const throttle = this.policyOf(status).throttle
+    const lastSent = this.lastSent[status]
+    return throttle === undefined || lastSent === undefined
+      ? entry.notBefore
+      : Math.max(entry.notBefore, lastSent + throttle)
+  }
+
+  private policyOf(status: string): SendPolicy {
+    return this.settings.policies[status] || {}
+  }
+
+  private schedule(delay: number): void {
+    this.timer = this.timers.setTimeout(() => {
+      this.timer = null
+      this.pump()
+    }, delay)
+  }
+
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      this.timers.clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+}
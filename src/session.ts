@@ -0,0 +1,82 @@
+/**
+ * Resumable sessions: the server numbers its messages and the client tells it
+ * the last number it received, when it reconnects, so the server can replay
+ * the messages sent in the meantime.
+ */
+
+export interface SessionOptions {
+  /** The field of the server messages, which carries the sequence number, default 'seq'. */
+  seqField?: string
+  /** The status of the resume handshake sent after a reconnect, default 'resume'. */
+  resumeStatus?: string
+  /** The status the server answers with, if it can't replay the missed messages, default 'resume_failed'. */
+  resumeFailedStatus?: string
+}
+
+/** Result of tracking the sequence number of a received message */
+export type SequenceCheck = 'next' | 'duplicate' | 'gap'
+
+export class Session {
+  private lastSeq: number | null = null
+
+  settings: Required<SessionOptions> = {
+    seqField: 'seq',
+    resumeStatus: 'resume',
+    resumeFailedStatus: 'resume_failed'
+  }
+
+  constructor(options: SessionOptions) {
+    this.settings = { ...this.settings, ...options }
+  }
+
+  /**
+   * Sequence number of the last message received, null if none was received yet
+   */
+  public get lastSequence(): number | null {
+    return this.lastSeq
+  }
+
+  /**
+   * SendData of the resume handshake, null if there is nothing to resume.
+   */
+  public resumeMessage(): { status: string; data: { lastSeq: number } } | null {
+    if (this.lastSeq === null) {
+      return null
+    }
+    return { status: this.settings.resumeStatus, data: { lastSeq: this.lastSeq } }
+  }
+
+  /**
+   * Returns the sequence number of a message object, null if it doesn't carry one.
+   *
+   * @param msgObject message object received from the server
+   */
+  public sequenceOf(msgObject: { [key: string]: any }): number | null {
+    const seq = msgObject[this.settings.seqField]
+    return typeof seq === 'number' ? seq : null
+  }
+
+  /**
+   * Records the sequence number of a received message.
+   * Returns 'duplicate' for messages received before, e.g. replayed twice,
+   * 'gap' if messages were skipped and 'next' otherwise.
+   *
+   * @param seq sequence number of the received message
+   */
+  public track(seq: number): SequenceCheck {
+    if (this.lastSeq !== null && seq <= this.lastSeq) {
+      return 'duplicate'
+    }
+    const check: SequenceCheck = this.lastSeq !== null && seq > this.lastSeq + 1 ? 'gap' : 'next'
+    this.lastSeq = seq
+    return check
+  }
+
+  /**
+   * Forgets the last sequence number, so the next received number is taken as it is.
+   * Used after the server refused to resume, since the missed messages are lost anyway.
+   */
+  public reset(): void {
+    this.lastSeq = null
+  }
+}
@@ -0,0 +1,431 @@
+/**
+ * Shares one websocket connection between the tabs of a browser.
+ * The tabs elect a leader over a BroadcastChannel, which owns the real websocket,
+ * while the other tabs (followers) send and receive their messages through it.
+ * For LabGuiWebsocket the shared connection looks like any other websocket, so
+ * reconnecting, heartbeats etc. work the same in every tab.
+ */
+
+import { defaultTimers, TimerHandle, Timers } from './timers'
+import { ReadyState, WebSocketConstructor, WebSocketLike } from './websocket-like'
+
+/** Minimal interface of the BroadcastChannel used to talk to the other tabs */
+export interface BroadcastChannelLike {
+  onmessage: ((event: MessageEvent) => any) | null
+  postMessage(message: any): void
+  close(): void
+}
+
+export type BroadcastChannelFactory = (name: string) => BroadcastChannelLike
+
+export interface SharedConnectionOptions {
+  /** The name of the BroadcastChannel, tabs using the same name share one connection. */
+  name?: string
+  /** Creates the BroadcastChannel, defaults to the global BroadcastChannel. */
+  broadcastChannel?: BroadcastChannelFactory
+  /** The number of milliseconds between two announcements of the leader, default 1000. */
+  announceInterval?: number
+  /** The number of milliseconds without announcement, before a tab takes over the lead, default 3000. */
+  leaderTimeout?: number
+}
+
+/** Messages exchanged between the tabs */
+type SharedMessage =
+  | { type: 'hello'; from: string }
+  | { type: 'leader'; from: string; open: boolean }
+  | { type: 'resign'; from: string }
+  | { type: 'send'; from: string; data: string | ArrayBuffer }
+  | { type: 'nack'; from: string; to: string }
+  | { type: 'message'; from: string; data: any }
+
+/**
+ * Creates a BroadcastChannel with the global implementation, throws if there is none.
+ *
+ * @param name name of the channel
+ */
+export function createGlobalBroadcastChannel(name: string): BroadcastChannelLike {
+  if (typeof BroadcastChannel === 'undefined') {
+    throw new Error(
+      'There is no global BroadcastChannel in this environment, ' +
+        'pass a factory as broadcastChannel of the shared option.'
+    )
+  }
+  return new BroadcastChannel(name)
+}
+
+export class SharedConnection {
+  private channel: BroadcastChannelLike | null = null
+  // distinguishes the tabs, the tab with the lowest id wins a contested election
+  private id: string = Math.random().toString(36).slice(2, 10)
+  private leaderId: string | null = null
+  private leaderOpen: boolean = false
+  // whether LabGuiWebsocket of the leader finished opening, e.g. after the authentication
+  private established: boolean = false
+  private socket: SharedSocket | null = null
+  private announceTimer: TimerHandle | null = null
+  private leaderTimer: TimerHandle | null = null
+
+  settings: Required<SharedConnectionOptions> = {
+    name: 'lab-gui-websocket',
+    broadcastChannel: createGlobalBroadcastChannel,
+    announceInterval: 1000,
+    leaderTimeout: 3000
+  }
+
+  constructor(options: SharedConnectionOptions, private timers: Timers = defaultTimers) {
+    this.settings = { ...this.settings, ...options }
+  }
+
+  /**
+   * Whether this tab owns the real websocket
+   */
+  public get isLeader(): boolean {
+    return this.leaderId === this.id
+  }
+
+  /**
+   * Creates the websocket used by LabGuiWebsocket, which joins the election of the
+   * leader, if this tab doesn't take part yet.
+   *
+   * @param websocketClass implementation of the real websocket
+   * @param url url of the server
+   * @param protocols protocols of the real websocket
+   */
+  public createSocket(
+    websocketClass: WebSocketConstructor,
+    url: string,
+    protocols: string[]
+  ): WebSocketLike {
+    const socket = new SharedSocket(this, websocketClass, url, protocols, this.timers)
+    this.socket = socket
+    this.established = false
+    if (this.channel === null) {
+      this.channel = this.settings.broadcastChannel(this.settings.name)
+      this.channel.onmessage = event => this.receive(event.data)
+      if (typeof window !== 'undefined') {
+        window.addEventListener('pagehide', this.handlePageHide)
+      }
+      this.post({ type: 'hello', from: this.id })
+      // a present leader answers right away, so there is no need to wait for its announcement
+      this.watchLeader(this.settings.announceInterval)
+    }
+    if (this.isLeader) {
+      socket.leaderChanged()
+    } else if (this.leaderOpen) {
+      // the caller needs to register its handlers first
+      this.timers.setTimeout(() => socket.leaderState(this.leaderOpen), 0)
+    }
+    return socket
+  }
+
+  /**
+   * Leaves the election, so another tab takes over the lead.
+   * Called when the connection is closed on purpose or the tab is closed.
+   */
+  public resign(): void {
+    if (this.channel === null) {
+      return
+    }
+    if (this.isLeader) {
+      this.post({ type: 'resign', from: this.id })
+    }
+    this.clearTimers()
+    this.channel.close()
+    this.channel = null
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide)
+    }
+    this.leaderId = null
+    this.leaderOpen = false
+  }
+
+  /**
+   * Sends a frame of a follower through the leader.
+   */
+  public forward(data: string | ArrayBuffer): void {
+    this.post({ type: 'send', from: this.id, data })
+  }
+
+  /**
+   * Passes a frame received by the leader on to the followers.
+   */
+  public relay(data: any): void {
+    this.post({ type: 'message', from: this.id, data })
+  }
+
+  /**
+   * Called when LabGuiWebsocket finished opening the connection, so the followers
+   * only use the websocket of the leader, once it was e.g. authenticated.
+   */
+  public opened(): void {
+    this.established = true
+    this.announce()
+  }
+
+  /**
+   * Tells the followers whether the connection of the leader is open.
+   */
+  public announce(): void {
+    if (this.isLeader) {
+      this.post({ type: 'leader', from: this.id, open: this.isOpen() })
+    }
+  }
+
+  private handlePageHide = () => this.resign()
+
+  private isOpen(): boolean {
+    return this.established && this.socket !== null && this.socket.readyState === ReadyState.OPEN
+  }
+
+  private receive(message: SharedMessage): void {
+    switch (message.type) {
+      case 'hello':
+        this.announce()
+        break
+      case 'leader':
+        if (this.isLeader && message.from > this.id) {
+          // the other tab steps down, when it receives this announcement
+          this.announce()
+        } else if (message.from !== this.leaderId) {
+          this.follow(message.from, message.open)
+        } else {
+          this.watchLeader()
+          this.setLeaderOpen(message.open)
+        }
+        break
+      case 'resign':
+        if (message.from === this.leaderId) {
+          this.lead()
+        }
+        break
+      case 'send':
+        if (this.isLeader && this.socket !== null && this.isOpen()) {
+          this.socket.send(message.data)
+        } else if (this.isLeader) {
+          // the follower closes its connection, since its message got lost
+          this.post({ type: 'nack', from: this.id, to: message.from })
+        }
+        break
+      case 'nack':
+        if (message.to === this.id && message.from === this.leaderId && this.socket !== null) {
+          this.socket.rejected()
+        }
+        break
+      case 'message':
+        if (message.from === this.leaderId && this.socket !== null) {
+          this.socket.relayed(message.data)
+        }
+        break
+    }
+  }
+
+  private follow(leaderId: string, open: boolean): void {
+    const wasLeader = this.isLeader
+    const hadLeader = this.leaderId !== null
+    this.leaderId = leaderId
+    this.clearTimers()
+    this.watchLeader()
+    if (this.socket !== null && (wasLeader || hadLeader)) {
+      this.socket.leaderChanged()
+    }
+    this.setLeaderOpen(open)
+  }
+
+  private lead(): void {
+    this.leaderId = this.id
+    this.leaderOpen = false
+    this.established = false
+    this.clearTimers()
+    this.scheduleAnnounce()
+    this.announce()
+    if (this.socket !== null) {
+      this.socket.leaderChanged()
+    }
+  }
+
+  private setLeaderOpen(open: boolean): void {
+    this.leaderOpen = open
+    if (this.socket !== null) {
+      this.socket.leaderState(open)
+    }
+  }
+
+  private scheduleAnnounce(): void {
+    this.announceTimer = this.timers.setTimeout(() => {
+      this.announce()
+      this.scheduleAnnounce()
+    }, this.settings.announceInterval)
+  }
+
+  private watchLeader(timeout: number = this.settings.leaderTimeout): void {
+    if (this.leaderTimer !== null) {
+      this.timers.clearTimeout(this.leaderTimer)
+    }
+    this.leaderTimer = this.timers.setTimeout(() => {
+      this.leaderTimer = null
+      this.lead()
+    }, timeout)
+  }
+
+  private clearTimers(): void {
+    if (this.announceTimer !== null) {
+      this.timers.clearTimeout(this.announceTimer)
+      this.announceTimer = null
+    }
+    if (this.leaderTimer !== null) {
+      this.timers.clearTimeout(this.leaderTimer)
+      this.leaderTimer = null
+    }
+  }
+
+  private post(message: SharedMessage): void {
+    if (this.channel !== null) {
+      this.channel.postMessage(message)
+    }
+  }
+}
+
+/**
+ * Websocket of a single connection attempt of a tab. In the leader it wraps the real
+ * websocket, in a follower it stands in for the websocket of the leader.
+ */
+export class SharedSocket implements WebSocketLike {
+  public readyState: number = ReadyState.CONNECTING
+  public onopen: ((event: any) => any) | null = null
+  public onclose: ((event: any) => any) | null = null
+  public onmessage: ((event: any) => any) | null = null
+  public onerror: ((event: any) => any) | null = null
+  private inner: WebSocketLike | null = null
+  private binaryTypeValue: string = 'blob'
+
+  constructor(
+    private shared: SharedConnection,
+    private websocketClass: WebSocketConstructor,
+    private url: string,
+    private protocols: string[],
+    private timers: Timers
+  ) {}
+
+  public get binaryType(): string {
+    return this.binaryTypeValue
+  }
+
+  public set binaryType(binaryType: string) {
+    this.binaryTypeValue = binaryType
+    if (this.inner) {
+      this.inner.binaryType = binaryType
+    }
+  }
+
+  public send(data: string | ArrayBuffer): void {
+    if (this.inner) {
+      this.inner.send(data)
+    } else {
+      this.shared.forward(data)
+    }
+  }
+
+  public close(code?: number, reason?: string): void {
+    if (this.readyState === ReadyState.CLOSING || this.readyState === ReadyState.CLOSED) {
+      return
+    }
+    this.readyState = ReadyState.CLOSING
+    if (this.inner) {
+      this.inner.close(code, reason)
+    } else {
+      this.closeLater(code || 1000, reason || '')
+    }
+  }
+
+  /**
+   * Called when this tab became the leader or lost the lead.
+   */
+  public leaderChanged(): void {
+    if (this.readyState === ReadyState.CLOSING || this.readyState === ReadyState.CLOSED) {
+      return
+    }
+    if (this.inner === null && this.readyState === ReadyState.CONNECTING) {
+      if (this.shared.isLeader) {
+        this.openInner()
+      }
+      return
+    }
+    // the connection of this attempt is gone, LabGuiWebsocket reconnects with the new leader
+    const inner = this.inner
+    if (inner) {
+      this.inner = null
+      inner.onopen = inner.onmessage = inner.onerror = inner.onclose = null
+      inner.close(1000, 'Leader changed')
+    }
+    this.closeLater(4001, 'Leader changed')
+  }
+
+  /**
+   * Called in a follower whenever the leader announced the state of its websocket.
+   */
+  public leaderState(open: boolean): void {
+    if (this.inner !== null) {
+      return
+    }
+    if (open && this.readyState === ReadyState.CONNECTING) {
+      this.readyState = ReadyState.OPEN
+      this.call(this.onopen, { type: 'open' })
+    } else if (!open && this.readyState === ReadyState.OPEN) {
+      this.closeLater(1006, 'The leader lost the connection')
+    }
+  }
+
+  /**
+   * Called in a follower, when the leader couldn't send one of its messages.
+   */
+  public rejected(): void {
+    if (this.inner === null && this.readyState === ReadyState.OPEN) {
+      this.closeLater(1006, "The leader couldn't send a message")
+    }
+  }
+
+  /**
+   * Called in a follower with each message the leader received.
+   */
+  public relayed(data: any): void {
+    if (this.inner === null && this.readyState === ReadyState.OPEN) {
+      this.call(this.onmessage, { type: 'message', data })
+    }
+  }
+
+  private openInner(): void {
+    const inner = new this.websocketClass(this.url, this.protocols)
+    inner.binaryType = this.binaryTypeValue
+    // the followers are told about the open connection by opened()
+    inner.onopen = event => {
+      this.readyState = ReadyState.OPEN
+      this.call(this.onopen, event)
+    }
+    inner.onmessage = event => {
+      this.shared.relay(event.data)
+      this.call(this.onmessage, event)
+    }
+    inner.onerror = event => this.call(this.onerror, event)
+    inner.onclose = event => {
+      this.inner = null
+      this.readyState = ReadyState.CLOSED
+      this.shared.announce()
+      this.call(this.onclose, event)
+    }
+    this.inner = inner
+  }
+
+  private closeLater(code: number, reason: string): void {
+    this.readyState = ReadyState.CLOSING
+    this.timers.setTimeout(() => {
+      this.readyState = ReadyState.CLOSED
+      this.call(this.onclose, { type: 'close', code, reason, wasClean: code === 1000 })
+    }, 0)
+  }
+
+  private call(handler: ((event: any) => any) | null, event: any): void {
+    if (handler) {
+      handler(event)
+    }
+  }
+}
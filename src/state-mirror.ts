@@ -0,0 +1,322 @@
+/**
+ * Local copy of the control state pushed by the server, either as full snapshots
+ * or as JSON-Patch style deltas. Values are addressed with JSON Pointers,
+ * e.g. '/laser/power', and listeners are only called if their value changed.
+ */
+
+import { ProtocolError } from './errors'
+import { LabGuiEvent, LabGuiEventTarget } from './events'
+
+export interface StateMirrorOptions {
+  /** The status of messages, whose data is a full snapshot of the state, default 'control_status'. */
+  snapshotStatus?: string
+  /** The status of messages, whose data is a list of patch operations, default 'control_patch'. */
+  patchStatus?: string
+}
+
+/** Single operation of a JSON Patch (RFC 6902), only add, remove and replace are supported */
+export interface PatchOperation {
+  op: 'add' | 'remove' | 'replace'
+  /** JSON Pointer to the changed value, e.g. '/laser/power'. */
+  path: string
+  value?: any
+}
+
+export type StateListener = (value: any, path: string) => void
+
+/** Event dispatched when the state became stale or up to date again */
+export interface StaleChangeEvent extends LabGuiEvent {
+  type: 'stalechange'
+  stale: boolean
+}
+
+/** Events of StateMirror by their type */
+export interface StateMirrorEventMap {
+  stalechange: StaleChangeEvent
+}
+
+interface Subscription {
+  path: string
+  tokens: string[]
+  listener: StateListener
+}
+
+export class StateMirror extends LabGuiEventTarget<StateMirrorEventMap> {
+  private value: any = {}
+  private staleValue: boolean = true
+  private subscriptions: Subscription[] = []
+
+  /* tslint:disable:no-empty */
+  public onstalechange: (event: StaleChangeEvent) => void = event => {}
+
+  settings: Required<StateMirrorOptions> = {
+    snapshotStatus: 'control_status',
+    patchStatus: 'control_patch'
+  }
+
+  constructor(options: StateMirrorOptions = {}) {
+    super()
+    this.settings = { ...this.settings, ...options }
+  }
+
+  /**
+   * Whether the state might be outdated, which is the case until the first snapshot
+   * arrived and after the connection was lost, until the next snapshot arrives.
+   */
+  public get stale(): boolean {
+    return this.staleValue
+  }
+
+  /**
+   * Returns the value at the given JSON Pointer, undefined if there is none.
+   *
+   * @param path JSON Pointer, e.g. '/laser/power', '' for the whole state
+   */
+  public get(path: string = ''): any {
+    return getIn(this.value, parsePointer(path))
+  }
+
+  /**
+   * Registers a listener, which is called with the new value whenever
+   * the value at the given path changed.
+   * Returns a function which removes the listener again.
+   *
+   * @param path JSON Pointer, e.g. '/laser/power', '' for the whole state
+   * @param listener function called with the new value and the path
+   */
+  public subscribe(path: string, listener: StateListener): () => void {
+    const subscription: Subscription = { path, tokens: parsePointer(path), listener }
+    this.subscriptions = this.subscriptions.concat(subscription)
+    return () => {
+      this.subscriptions = this.subscriptions.filter(added => added !== subscription)
+    }
+  }
+
+  /**
+   * Updates the state with a snapshot or a patch message.
+   * Returns whether the message was one of them.
+   *
+   * @param msgObject message object received from the server
+   */
+  public receive(msgObject: { status?: any; data?: any }): boolean {
+    if (msgObject.status === this.settings.snapshotStatus) {
+      this.applySnapshot(msgObject.data)
+      return true
+    }
+    if (msgObject.status === this.settings.patchStatus) {
+      this.applyPatch(msgObject.data)
+      return true
+    }
+    return false
+  }
+
+  /**
+   * Replaces the whole state, after which it isn't stale anymore.
+   *
+   * @param snapshot the full state
+   */
+  public applySnapshot(snapshot: any): void {
+    const previous = this.value
+    this.value = snapshot === undefined ? {} : snapshot
+    this.setStale(false)
+    this.notify(previous)
+  }
+
+  /**
+   * Applies the operations of a JSON Patch one after another.
+   * Throws if an operation isn't supported or its path doesn't exist,
+   * in which case the state is left unchanged.
+   *
+   * @param operations patch operations
+   */
+  public applyPatch(operations: PatchOperation[]): void {
+    if (!Array.isArray(operations)) {
+      throw new ProtocolError('A patch needs to be a list of operations.', operations)
+    }
+    const previous = this.value
+    this.value = operations.reduce((state, operation) => applyOperation(state, operation), previous)
+    this.notify(previous)
+  }
+
+  /**
+   * Sets the values of the data object in the object at the given path, before the
+   * server confirmed them. Objects missing along the path are created, e.g. before
+   * the first snapshot arrived. Returns a function, which restores the previous values,
+   * unless they were changed in the meantime, e.g. by a newer snapshot.
+   *
+   * @param path JSON Pointer of the object the data is merged into, '' for the whole state
+   * @param data values by their key
+   */
+  public applyOptimistic(path: string, data: { [key: string]: any }): () => void {
+    const tokens = parsePointer(path)
+    const missing = tokens.findIndex(
+      (token, index) => getIn(this.value, tokens.slice(0, index + 1)) === undefined
+    )
+    const changes =
+      missing === -1
+        ? Object.keys(data).map(key => {
+            const pointer = formatPointer(tokens.concat(key))
+            return { pointer, value: data[key], previous: this.get(pointer) }
+          })
+        : [
+            {
+              pointer: formatPointer(tokens.slice(0, missing + 1)),
+              value: tokens
+                .slice(missing + 1)
+                .reduceRight((value: any, token) => ({ [token]: value }), { ...data }),
+              previous: undefined
+            }
+          ]
+    this.applyPatch(changes.map(({ pointer, value }) => ({ op: 'add', path: pointer, value })))
+    return () => {
+      const reverts: PatchOperation[] = changes
+        .filter(({ pointer, value }) => deepEqual(this.get(pointer), value))
+        .map(({ pointer, previous }) =>
+          previous === undefined
+            ? { op: 'remove', path: pointer }
+            : { op: 'replace', path: pointer, value: previous }
+        )
+      this.applyPatch(reverts)
+    }
+  }
+
+  /**
+   * Marks the state as stale, e.g. while reconnecting.
+   */
+  public markStale(): void {
+    this.setStale(true)
+  }
+
+  /**
+   * Calls the listeners, whose value differs from the one in the previous state
+   */
+  private notify(previous: any): void {
+    this.subscriptions.slice().forEach(({ path, tokens, listener }) => {
+      const next = getIn(this.value, tokens)
+      if (!deepEqual(getIn(previous, tokens), next)) {
+        listener(next, path)
+      }
+    })
+  }
+
+  private setStale(stale: boolean): void {
+    if (this.staleValue !== stale) {
+      this.staleValue = stale
+      this.dispatchEvent({ type: 'stalechange', stale })
+    }
+  }
+}
+
+/**
+ * Splits a JSON Pointer into its unescaped reference tokens.
+ */
+function parsePointer(path: string): string[] {
+  if (path === '') {
+    return []
+  }
+  if (path.charAt(0) !== '/') {
+    throw new Error(`The path '${path}' isn't a JSON Pointer, which starts with '/'.`)
+  }
+  return path
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * Joins reference tokens to a JSON Pointer, escaping them.
+ */
+function formatPointer(tokens: string[]): string {
+  return tokens.map(token => `/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('')
+}
+
+function getIn(value: any, tokens: string[]): any {
+  return tokens.reduce(
+    (current, token) =>
+      current !== null && typeof current === 'object' ? current[token] : undefined,
+    value
+  )
+}
+
+/**
+ * Returns a copy of the state with the operation applied,
+ * only the containers along the path are copied.
+ */
+function applyOperation(state: any, operation: PatchOperation): any {
+  const tokens = parsePointer(operation.path)
+  if (tokens.length === 0) {
+    if (operation.op === 'remove') {
+      return {}
+    }
+    return operation.value
+  }
+  const update = (container: any, index: number): any => {
+    if (container === null || typeof container !== 'object') {
+      throw pathError(operation)
+    }
+    const token = tokens[index]
+    const copy = Array.isArray(container) ? container.slice() : { ...container }
+    if (index < tokens.length - 1) {
+      copy[token] = update(container[token], index + 1)
+      return copy
+    }
+    if (Array.isArray(copy)) {
+      const position = token === '-' ? copy.length : Number(token)
+      if (!(position >= 0 && position <= copy.length)) {
+        throw pathError(operation)
+      }
+      if (operation.op === 'add') {
+        copy.splice(position, 0, operation.value)
+        return copy
+      }
+      if (position === copy.length) {
+        throw pathError(operation)
+      }
+    } else if (operation.op !== 'add' && !(token in copy)) {
+      throw pathError(operation)
+    }
+    switch (operation.op) {
+      case 'add':
+      case 'replace':
+        copy[token] = operation.value
+        break
+      case 'remove':
+        if (Array.isArray(copy)) {
+          copy.splice(Number(token), 1)
+        } else {
+          delete copy[token]
+        }
+        break
+      default:
+        throw new ProtocolError(
+          `The patch operation '${(operation as any).op}' isn't supported.`,
+          operation
+        )
+    }
+    return copy
+  }
+  return update(state, 0)
+}
+
+function pathError(operation: PatchOperation): ProtocolError {
+  return new ProtocolError(`The patch path '${operation.path}' doesn't exist.`, operation)
+}
+
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true
+  }
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false
+  }
+  const keys = Object.keys(a)
+  if (keys.length !== Object.keys(b).length) {
+    return false
+  }
+  return keys.every(
+    key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key])
+  )
+}
@@ -0,0 +1,248 @@
+/**
+ * Metrics about the quality of the connection, like the number of reconnects,
+ * the time spent connected and the traffic per status.
+ */
+
+import { defaultTimers, TimerHandle, Timers } from './timers'
+
+export interface StatsOptions {
+  /** The number of milliseconds between two 'stats' events. Disabled if null (default). */
+  interval?: number | null
+  /** Upper bounds in milliseconds of the buckets of the latency histogram. */
+  latencyBuckets?: number[]
+}
+
+/** Number and total size of messages, sizes are bytes for binary and characters for text frames */
+export interface MessageCounts {
+  messages: number
+  bytes: number
+}
+
+export interface TrafficStats extends MessageCounts {
+  /** Counts by the status of the messages, messages without status are counted under ''. */
+  byStatus: { [status: string]: MessageCounts }
+}
+
+/** Number of messages, which weren't sent as they were passed to send() */
+export interface DiscardCounts {
+  messages: number
+  /** Counts by the status of the messages. */
+  byStatus: { [status: string]: number }
+}
+
+export interface LatencyHistogram {
+  /** Number of measured round-trip times. */
+  count: number
+  min: number
+  max: number
+  mean: number
+  /**
+   * Number of round-trip times per bucket, by the upper bound of the bucket in milliseconds,
+   * '+Inf' for the ones above the last bound.
+   */
+  buckets: { [upperBound: string]: number }
+}
+
+/** Snapshot of the metrics returned by LabGuiWebsocket.getStats() */
+export interface Stats {
+  /** Number of connection attempts, including the reconnects. */
+  connectAttempts: number
+  /** Number of connection attempts, which succeeded. */
+  connects: number
+  /** Number of times an open connection got closed. */
+  disconnects: number
+  /** Number of close events by their close code, including failed connection attempts. */
+  closeCodes: { [code: string]: number }
+  /** Milliseconds the connection was open. */
+  connectedTime: number
+  /** Milliseconds since the first connection attempt, during which the connection wasn't open. */
+  disconnectedTime: number
+  inbound: TrafficStats
+  outbound: TrafficStats
+  /** Number of received frames, which couldn't be decoded. */
+  parseFailures: number
+  /** Messages replaced by a newer message of their status before they were sent, see sendPolicy. */
+  merged: DiscardCounts
+  /** Messages waiting to be sent by the sendPolicy, which were discarded since the connection closed. */
+  dropped: DiscardCounts
+  /** Round-trip times measured by the heartbeat, null if none was measured. */
+  latency: LatencyHistogram | null
+}
+
+export class ConnectionStats {
+  private stats: Stats = {
+    connectAttempts: 0,
+    connects: 0,
+    disconnects: 0,
+    closeCodes: {},
+    connectedTime: 0,
+    disconnectedTime: 0,
+    inbound: { messages: 0, bytes: 0, byStatus: {} },
+    outbound: { messages: 0, bytes: 0, byStatus: {} },
+    parseFailures: 0,
+    merged: { messages: 0, byStatus: {} },
+    dropped: { messages: 0, byStatus: {} },
+    latency: null
+  }
+  private connected: boolean = false
+  // start of the current connected or disconnected period, null before the first attempt
+  private periodStart: number | null = null
+  private timer: TimerHandle | null = null
+
+  settings: Required<StatsOptions> = {
+    interval: null,
+    latencyBuckets: [10, 25, 50, 100, 250, 500, 1000]
+  }
+
+  constructor(options: StatsOptions = {}, private timers: Timers = defaultTimers) {
+    this.settings = { ...this.settings, ...options }
+  }
+
+  /**
+   * Calls the callback with a snapshot every `interval` milliseconds, until stop is called.
+   * Does nothing if the interval is null or it is already running.
+   *
+   * @param callback function called with the snapshot
+   */
+  public start(callback: (stats: Stats) => void): void {
+    const interval = this.settings.interval
+    if (interval === null || this.timer !== null) {
+      return
+    }
+    const schedule = () => {
+      this.timer = this.timers.setTimeout(() => {
+        schedule()
+        callback(this.snapshot())
+      }, interval)
+    }
+    schedule()
+  }
+
+  public stop(): void {
+    if (this.timer !== null) {
+      this.timers.clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  public attempt(): void {
+    this.stats.connectAttempts++
+    if (this.periodStart === null) {
+      this.periodStart = this.timers.now()
+    }
+  }
+
+  public opened(): void {
+    this.stats.connects++
+    this.switchPeriod(true)
+  }
+
+  /**
+   * Records the close of a connection or a failed connection attempt
+   *
+   * @param code code of the close event
+   */
+  public closed(code: number | undefined): void {
+    const key = code === undefined ? 'unknown' : String(code)
+    this.stats.closeCodes[key] = (this.stats.closeCodes[key] || 0) + 1
+    if (this.connected) {
+      this.stats.disconnects++
+      this.switchPeriod(false)
+    }
+  }
+
+  public received(status: string, bytes: number): void {
+    count(this.stats.inbound, status, bytes)
+  }
+
+  public sent(status: string, bytes: number): void {
+    count(this.stats.outbound, status, bytes)
+  }
+
+  public parseFailed(): void {
+    this.stats.parseFailures++
+  }
+
+  public merged(status: string): void {
+    countDiscarded(this.stats.merged, status)
+  }
+
+  public dropped(status: string): void {
+    countDiscarded(this.stats.dropped, status)
+  }
+
+  /**
+   * Adds a round-trip time to the latency histogram
+   *
+   * @param latency round-trip time in milliseconds
+   */
+  public latency(latency: number): void {
+    const bounds = this.settings.latencyBuckets
+    const histogram: LatencyHistogram = this.stats.latency || {
+      count: 0,
+      min: latency,
+      max: latency,
+      mean: 0,
+      buckets: bounds.reduce((buckets, bound) => ({ ...buckets, [bound]: 0 }), { '+Inf': 0 })
+    }
+    histogram.mean = (histogram.mean * histogram.count + latency) / (histogram.count + 1)
+    histogram.count++
+    histogram.min = Math.min(histogram.min, latency)
+    histogram.max = Math.max(histogram.max, latency)
+    const bound = bounds.find(upperBound => latency <= upperBound)
+    histogram.buckets[bound === undefined ? '+Inf' : bound]++
+    this.stats.latency = histogram
+  }
+
+  /**
+   * Returns a copy of the metrics, including the time of the current period
+   */
+  public snapshot(): Stats {
+    const snapshot: Stats = JSON.parse(JSON.stringify(this.stats))
+    if (this.periodStart !== null) {
+      const current = this.timers.now() - this.periodStart
+      if (this.connected) {
+        snapshot.connectedTime += current
+      } else {
+        snapshot.disconnectedTime += current
+      }
+    }
+    return snapshot
+  }
+
+  private switchPeriod(connected: boolean): void {
+    const now = this.timers.now()
+    if (this.periodStart !== null) {
+      if (this.connected) {
+        this.stats.connectedTime += now - this.periodStart
+      } else {
+        this.stats.disconnectedTime += now - this.periodStart
+      }
+    }
+    this.connected = connected
+    this.periodStart = now
+  }
+}
+
+function count(traffic: TrafficStats, status: string, bytes: number): void {
+  traffic.messages++
+  traffic.bytes += bytes
+  const counts = traffic.byStatus[status] || { messages: 0, bytes: 0 }
+  traffic.byStatus[status] = { messages: counts.messages + 1, bytes: counts.bytes + bytes }
+}
+
+function countDiscarded(discarded: DiscardCounts, status: string): void {
+  discarded.messages++
+  discarded.byStatus[status] = (discarded.byStatus[status] || 0) + 1
+}
+
+/**
+ * Returns the status a message is counted under, '' if it has none.
+ *
+ * @param message sent or received message object, or a text frame
+ */
+export function statusOf(message: any): string {
+  return message !== null && typeof message === 'object' && typeof message.status === 'string'
+    ? message.status
+    : ''
+}
@@ -0,0 +1,8 @@
+/**
+ * Helpers for tests and local development, which are kept out of the main bundle:
+ * the in-memory mock lab server and the transport replaying recorded sessions.
+ * They are imported from 'lab-gui-websocket/testing'.
+ */
+
+export * from './mock-lab-server'
+export * from './replay'
@@ -0,0 +1,29 @@
+/**
+ * Timer functions and the clock used by LabGuiWebsocket and its helpers, which can be
+ * replaced, e.g. by the timers of a test framework or an event loop.
+ */
+
+export type TimerHandle = unknown
+
+export interface Timers {
+  setTimeout(callback: () => void, ms: number): TimerHandle
+  clearTimeout(handle: TimerHandle): void
+  /** The current time in milliseconds, like Date.now(). */
+  now(): number
+}
+
+/**
+ * The global timer functions and Date.now, looked up on every call,
+ * so that timers which get replaced later on are used as well.
+ */
+export const defaultTimers: Timers = {
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    return setTimeout(callback, ms)
+  },
+  clearTimeout(handle: TimerHandle): void {
+    clearTimeout(handle as ReturnType<typeof setTimeout>)
+  },
+  now(): number {
+    return Date.now()
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Validation of the data of received and sent messages by their status,
+ * either with a (subset of) JSON Schema or with a predicate function.
+ */
+
+import { LabGuiError } from './errors'
+import { StatusMessage } from './router'
+
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null'
+
+/**
+ * Supported subset of JSON Schema
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[]
+  enum?: any[]
+  const?: any
+  properties?: { [key: string]: JsonSchema }
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  minItems?: number
+  maxItems?: number
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+}
+
+/**
+ * Predicate on the data of a message. Returns true if the data is valid,
+ * false or a description of the problem otherwise.
+ */
+export type ValidatorFunction = (data: any, message: StatusMessage) => boolean | string
+
+export type Validator = JsonSchema | ValidatorFunction
+
+/** 'inbound' for received messages, 'outbound' for sent ones */
+export type ValidationDirection = 'inbound' | 'outbound'
+
+export class ValidationError extends LabGuiError {
+  constructor(
+    public direction: ValidationDirection,
+    public status: string,
+    public errors: string[],
+    payload?: any
+  ) {
+    super(
+      'VALIDATION_ERROR',
+      `The ${direction} message with status '${status}' is invalid: ${errors.join(', ')}`,
+      payload
+    )
+    this.name = 'ValidationError'
+  }
+}
+
+interface ValidatorEntry {
+  validator: Validator
+  inbound: boolean
+  outbound: boolean
+}
+
+export class MessageValidators {
+  private validators: { [status: string]: ValidatorEntry[] } = {}
+
+  /**
+   * Registers a validator for the data of messages with the given status.
+   * Returns a function which removes the validator again.
+   *
+   * @param status status of the messages to validate
+   * @param validator JSON Schema or predicate function
+   * @param direction validate received ('inbound') or sent ('outbound') messages, or 'both'
+   */
+  public add(
+    status: string,
+    validator: Validator,
+    direction: ValidationDirection | 'both' = 'both'
+  ): () => void {
+    const entry: ValidatorEntry = {
+      validator,
+      inbound: direction !== 'outbound',
+      outbound: direction !== 'inbound'
+    }
+    this.validators[status] = (this.validators[status] || []).concat(entry)
+    return () => {
+      this.validators[status] = this.validators[status].filter(added => added !== entry)
+    }
+  }
+
+  /**
+   * Validates the data of a message object with all validators of its status.
+   * Returns the error describing all problems, null if the data is valid.
+   *
+   * @param direction whether the message was received or is about to be sent
+   * @param msgObject message object to validate
+   */
+  public validate(direction: ValidationDirection, msgObject: object): ValidationError | null {
+    const message = (msgObject || {}) as StatusMessage
+    const entries = (this.validators[message.status] || []).filter(entry => entry[direction])
+    const errors: string[] = []
+    entries.forEach(({ validator }) => {
+      if (typeof validator === 'function') {
+        errors.push(...runValidatorFunction(validator, message))
+      } else {
+        errors.push(...validateSchema(validator, message.data))
+      }
+    })
+    return errors.length > 0
+      ? new ValidationError(direction, message.status, errors, msgObject)
+      : null
+  }
+}
+
+function runValidatorFunction(validator: ValidatorFunction, message: StatusMessage): string[] {
+  try {
+    const result = validator(message.data, message)
+    if (result === true) {
+      return []
+    }
+    return [typeof result === 'string' ? result : 'data was rejected by the validator']
+  } catch (err) {
+    return [`the validator threw: ${err instanceof Error ? err.message : err}`]
+  }
+}
+
+/**
+ * Validates a value with a JSON Schema and returns the descriptions of all problems.
+ *
+ * @param schema JSON Schema, only the keywords of JsonSchema are supported
+ * @param value value to validate
+ * @param path name of the value in the descriptions
+ */
+export function validateSchema(schema: JsonSchema, value: any, path: string = 'data'): string[] {
+  const type = typeOf(value)
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    const matches = types.some(
+      expected => expected === type || (expected === 'number' && type === 'integer')
+    )
+    if (!matches) {
+      return [`${path} should be of type ${types.join(' or ')}`]
+    }
+  }
+  const errors: string[] = []
+  if (schema.enum !== undefined && !schema.enum.some(option => option === value)) {
+    errors.push(`${path} should be one of ${JSON.stringify(schema.enum)}`)
+  }
+  if (schema.const !== undefined && schema.const !== value) {
+    errors.push(`${path} should be ${JSON.stringify(schema.const)}`)
+  }
+  if (type === 'number' || type === 'integer') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} should be >= ${schema.minimum}`)
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} should be <= ${schema.maximum}`)
+    }
+  }
+  if (type === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} should have at least ${schema.minLength} characters`)
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} should have at most ${schema.maxLength} characters`)
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} should match ${schema.pattern}`)
+    }
+  }
+  if (type === 'array') {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} should have at least ${schema.minItems} items`)
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path} should have at most ${schema.maxItems} items`)
+    }
+    if (schema.items !== undefined) {
+      const items = schema.items
+      value.forEach((item: any, index: number) => {
+        errors.push(...validateSchema(items, item, `${path}[${index}]`))
+      })
+    }
+  }
+  if (type === 'object') {
+    const properties = schema.properties || {}
+    const required = schema.required || []
+    required.forEach(key => {
+      if (!(key in value)) {
+        errors.push(`${path}.${key} is required`)
+      }
+    })
+    Object.keys(value).forEach(key => {
+      if (properties[key] !== undefined) {
+        errors.push(...validateSchema(properties[key], value[key], `${path}.${key}`))
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`)
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(schema.additionalProperties, value[key], `${path}.${key}`))
+      }
+    })
+  }
+  return errors
+}
+
+function typeOf(value: any): JsonSchemaType | 'undefined' {
+  if (value === null) {
+    return 'null'
+  }
+  if (Array.isArray(value)) {
+    return 'array'
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number'
+  }
+  return typeof value as JsonSchemaType
+}
@@ -0,0 +1,42 @@
+/**
+ * Minimal interface of the WebSocket implementation used by LabGuiWebsocket.
+ * It is satisfied by the browser WebSocket, but also by node implementations
+ * like `ws` or stand-ins for testing, so no global WebSocket is needed.
+ */
+
+/** Connection states, with the same values as the standard WebSocket constants */
+export enum ReadyState {
+  CONNECTING = 0,
+  OPEN = 1,
+  CLOSING = 2,
+  CLOSED = 3
+}
+
+export interface WebSocketLike {
+  binaryType: string
+  readonly readyState: number
+  /** Number of bytes queued by send(), but not transmitted yet, if the implementation tracks it. */
+  readonly bufferedAmount?: number
+  onopen: ((event: any) => any) | null
+  onclose: ((event: any) => any) | null
+  onmessage: ((event: any) => any) | null
+  onerror: ((event: any) => any) | null
+  send(data: string | ArrayBuffer): void
+  close(code?: number, reason?: string): void
+}
+
+export type WebSocketConstructor = new (url: string, protocols?: string | string[]) => WebSocketLike
+
+/**
+ * Returns the global WebSocket class, throws if there is none (e.g. in node),
+ * in which case an implementation needs to be passed as `websocketClass`.
+ */
+export function getGlobalWebSocket(): WebSocketConstructor {
+  if (typeof WebSocket === 'undefined') {
+    throw new Error(
+      'There is no global WebSocket in this environment, ' +
+        "pass an implementation like the one of the 'ws' package as websocketClass."
+    )
+  }
+  return WebSocket
+}
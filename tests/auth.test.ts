@@ -0,0 +1,67 @@
+import { Authenticator } from '../src/auth'
+
+describe('Testing Authenticator', () => {
+  it('uses the default settings', () => {
+    const auth = new Authenticator({ getToken: () => 'token' })
+    expect(auth.settings).toEqual({
+      getToken: expect.any(Function),
+      transport: 'message',
+      authStatus: 'auth',
+      okStatus: 'auth-ok',
+      rejectedStatus: 'auth-rejected',
+      rejectedCodes: [4001, 4003],
+      protocolPrefix: 'bearer.',
+      timeout: 5000
+    })
+  })
+
+  it('sends the token as message or as subprotocol', () => {
+    const message = new Authenticator({ getToken: () => 'token' })
+    expect(message.message('abc')).toEqual({ status: 'auth', data: { token: 'abc' } })
+    expect(message.protocols(['v1'], 'abc')).toEqual(['v1'])
+
+    const protocol = new Authenticator({
+      getToken: () => 'token',
+      transport: 'protocol',
+      protocolPrefix: 'token.'
+    })
+    expect(protocol.message('abc')).toBe(null)
+    expect(protocol.protocols(['v1'], 'abc')).toEqual(['v1', 'token.abc'])
+  })
+
+  it('refreshes a rejected token once before it stops', async () => {
+    const calls: boolean[] = []
+    const auth = new Authenticator({
+      getToken: refresh => {
+        calls.push(refresh)
+        return Promise.resolve(refresh ? 'fresh' : 'cached')
+      }
+    })
+    expect(await auth.token()).toBe('cached')
+    expect(auth.rejected()).toEqual({ name: 'auth-refresh', action: 0 })
+    expect(await auth.token()).toBe('fresh')
+    auth.accepted()
+    expect(auth.rejected()).toEqual({ name: 'auth-refresh', action: 0 })
+    expect(await auth.token()).toBe('fresh')
+    expect(auth.rejected()).toEqual({ name: 'auth-rejected', action: 'stop' })
+    // reopening fetches a new token as well
+    expect(await auth.token()).toBe('fresh')
+    expect(calls).toEqual([false, true, true, true])
+  })
+
+  it('passes errors of the hook on', async () => {
+    const auth = new Authenticator({
+      getToken: () => {
+        throw new Error('No session')
+      }
+    })
+    await expect(auth.token()).rejects.toThrow('No session')
+  })
+
+  it('tells the close codes rejecting the token apart', () => {
+    const auth = new Authenticator({ getToken: () => 'token', rejectedCodes: [4401] })
+    expect(auth.rejects(4401)).toBe(true)
+    expect(auth.rejects(4001)).toBe(false)
+    expect(auth.rejects(undefined)).toBe(false)
+  })
+})
@@ -0,0 +1,85 @@
+import { Channel, ChannelHost, ChannelMessage } from '../src/channels'
+
+describe('Testing Channel', () => {
+  let sent: ChannelMessage[]
+  let open: boolean
+  let released: Channel<any>[]
+  let host: ChannelHost
+
+  beforeEach(() => {
+    sent = []
+    open = false
+    released = []
+    host = {
+      isOpen: () => open,
+      send: msgObject => {
+        sent.push(msgObject)
+        return Promise.resolve()
+      },
+      release: channel => released.push(channel)
+    }
+  })
+
+  it('subscribes only while the connection is open', () => {
+    const channel = new Channel('laser', host)
+    const events: string[] = []
+    channel.onopen = event => events.push(`open ${event.channel}`)
+    channel.addEventListener('close', event => events.push(`close ${event.channel}`))
+    channel.subscribe()
+    expect(channel.isOpen).toBe(false)
+    expect(sent).toEqual([])
+
+    open = true
+    channel.subscribe()
+    channel.subscribe()
+    expect(channel.isOpen).toBe(true)
+    expect(sent).toEqual([{ status: 'subscribe', channel: 'laser' }])
+
+    channel.suspend()
+    channel.suspend()
+    expect(channel.isOpen).toBe(false)
+    expect(events).toEqual(['open laser', 'close laser'])
+  })
+
+  it('uses the configured statuses', () => {
+    open = true
+    const channel = new Channel('daq', host, {
+      subscribeStatus: 'join',
+      unsubscribeStatus: 'leave'
+    })
+    channel.subscribe()
+    channel.close()
+    expect(sent).toEqual([
+      { status: 'join', channel: 'daq' },
+      { status: 'leave', channel: 'daq' }
+    ])
+  })
+
+  it('sends messages tagged with its name until it is closed', () => {
+    const channel = new Channel('laser', host)
+    channel.send({ status: 'control_status', data: { power: 1 } })
+    expect(sent).toEqual([{ status: 'control_status', data: { power: 1 }, channel: 'laser' }])
+    channel.close()
+    channel.close()
+    expect(released).toEqual([channel])
+    expect(sent.length).toBe(1)
+    expect(() => channel.send({ status: 'control_status' })).toThrow(
+      "The channel 'laser' is closed."
+    )
+    open = true
+    channel.subscribe()
+    expect(sent.length).toBe(1)
+  })
+
+  it('dispatches messages to its handlers', () => {
+    const channel = new Channel<{ power: number }>('laser', host)
+    const calls: string[] = []
+    const handler = (data: number) => calls.push(`power ${data}`)
+    channel.on('power', handler)
+    channel.once('*', (data, message) => calls.push(`once ${message.status}`))
+    expect(channel.dispatch({ status: 'power', data: 3 })).toBe(true)
+    channel.off('power', handler)
+    expect(channel.dispatch({ status: 'power', data: 4 })).toBe(false)
+    expect(calls).toEqual(['power 3', 'once power'])
+  })
+})
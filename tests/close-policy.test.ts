@@ -0,0 +1,29 @@
+import { CloseRule, findCloseRule } from '../src/close-policy'
+
+describe('Testing findCloseRule', () => {
+  const rules: CloseRule[] = [
+    { name: 'auth-failed', codes: [4001, 4003], action: 'stop' },
+    { name: 'maintenance', reason: /maintenance/i, action: 60000 },
+    { name: 'going-away', codes: { from: 4100, to: 4199 }, reason: 'away', action: 1000 },
+    { name: 'normal', codes: [1000], action: 'reconnect' }
+  ]
+
+  it('returns the first rule matching the code and reason', () => {
+    expect(findCloseRule(rules, 4003, 'Maintenance')).toBe(rules[0])
+    expect(findCloseRule(rules, 1001, 'Down for Maintenance')).toBe(rules[1])
+    expect(findCloseRule(rules, 4150, 'Going away')).toBe(rules[2])
+    expect(findCloseRule(rules, 1000, undefined)).toBe(rules[3])
+  })
+
+  it('returns undefined if no rule matches', () => {
+    expect(findCloseRule(rules, 4150, 'Restart')).toBeUndefined()
+    expect(findCloseRule(rules, 4200, 'Going away')).toBeUndefined()
+    expect(findCloseRule(rules, undefined, '')).toBeUndefined()
+    expect(findCloseRule([], 1006, '')).toBeUndefined()
+  })
+
+  it('rules without codes and reason match every close', () => {
+    const always: CloseRule = { name: 'always', action: 'stop' }
+    expect(findCloseRule([always], undefined, undefined)).toBe(always)
+  })
+})
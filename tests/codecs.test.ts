@@ -0,0 +1,71 @@
+import { blobToArrayBuffer, isBlob, jsonCodec, msgpackCodec } from '../src/codecs'
+import { ParseError, SerializationError } from '../src/errors'
+
+describe('Testing codecs', () => {
+  const msgObject = { status: 'trace', data: { values: [1, 2.5, -3] } }
+
+  it('jsonCodec encodes to and decodes from JSON strings', () => {
+    const frame = jsonCodec.encode(msgObject)
+    expect(frame).toBe(JSON.stringify(msgObject))
+    expect(jsonCodec.decode(frame)).toEqual(msgObject)
+    expect(jsonCodec.binary).toBe(false)
+  })
+
+  it('jsonCodec throws ParseErrors for invalid frames', () => {
+    expect(() => jsonCodec.decode(new ArrayBuffer(1))).toThrow(
+      new ParseError("The recived message wasn't a string.")
+    )
+    expect(() => jsonCodec.decode('{')).toThrow(
+      new ParseError("The recived message couldn't be parsed to JSON.")
+    )
+    expect(() => jsonCodec.decode('{')).toThrow(ParseError)
+  })
+
+  it('codecs throw SerializationErrors for objects they cannot encode', () => {
+    const circular: any = { status: 'loop' }
+    circular.data = circular
+    expect(() => jsonCodec.encode(circular)).toThrow(SerializationError)
+    expect(() => msgpackCodec.encode({ status: 'callback', data: () => 1 })).toThrow(
+      new SerializationError("The message couldn't be encoded as MessagePack.")
+    )
+  })
+
+  it('msgpackCodec encodes to and decodes from binary frames', () => {
+    const frame = msgpackCodec.encode(msgObject)
+    expect(frame).toBeInstanceOf(ArrayBuffer)
+    expect((frame as ArrayBuffer).byteLength).toBeLessThan(JSON.stringify(msgObject).length)
+    expect(msgpackCodec.decode(frame)).toEqual(msgObject)
+    expect(msgpackCodec.binary).toBe(true)
+  })
+
+  it('msgpackCodec throws ParseErrors for invalid frames', () => {
+    expect(() => msgpackCodec.decode('text')).toThrow(
+      new ParseError("The recived message wasn't binary.")
+    )
+    expect(() => msgpackCodec.decode(new Uint8Array([0xc1]).buffer)).toThrow(
+      new ParseError("The recived message couldn't be decoded as MessagePack.")
+    )
+    expect(() => msgpackCodec.decode('text')).toThrow(ParseError)
+  })
+
+  it('blobToArrayBuffer reads blobs with and without Blob.arrayBuffer', async () => {
+    const bytes = new Uint8Array([1, 2, 3])
+    const blob = new Blob([bytes])
+    expect(isBlob(blob)).toBe(true)
+    expect(isBlob(bytes.buffer)).toBe(false)
+    const fromReader = await blobToArrayBuffer(blob)
+    expect(Array.from(new Uint8Array(fromReader))).toEqual([1, 2, 3])
+
+    const withArrayBuffer = { arrayBuffer: () => Promise.resolve(bytes.buffer) } as any
+    await expect(blobToArrayBuffer(withArrayBuffer)).resolves.toBe(bytes.buffer)
+  })
+
+  it('blobToArrayBuffer rejects if the blob could not be read', async () => {
+    const spyReader = jest.spyOn(window as any, 'FileReader').mockImplementation(() => {
+      const reader: any = { error: null, readAsArrayBuffer: () => reader.onerror() }
+      return reader
+    })
+    await expect(blobToArrayBuffer(new Blob([]))).rejects.toBeNull()
+    spyReader.mockRestore()
+  })
+})
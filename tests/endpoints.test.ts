@@ -0,0 +1,123 @@
+import { EndpointOptions, Endpoints } from '../src/endpoints'
+
+describe('Testing Endpoints', () => {
+  const urls = ['ws://primary', 'ws://backup', 'ws://spare']
+  let calls: string[]
+  let available: Promise<boolean>
+  let endpoints: Endpoints
+
+  const getEndpoints = (options: EndpointOptions = {}): Endpoints =>
+    new Endpoints(urls, options, {
+      probe: url => {
+        calls.push(`probe ${url}`)
+        return available
+      },
+      failBack: url => calls.push(`fail-back ${url}`)
+    })
+
+  const flushPromises = async () => {
+    for (let i = 0; i < 3; i++) {
+      await Promise.resolve()
+    }
+  }
+
+  beforeEach(() => {
+    calls = []
+    available = Promise.resolve(true)
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    endpoints.stop()
+    jest.useRealTimers()
+  })
+
+  it('stays with the current endpoint until it fails and rotates on', () => {
+    endpoints = getEndpoints()
+    expect(endpoints.current).toBe(null)
+    expect(endpoints.next()).toBe('ws://primary')
+    endpoints.succeeded('ws://primary')
+    expect(endpoints.next()).toBe('ws://primary')
+    endpoints.failed('ws://primary')
+    expect(endpoints.next()).toBe('ws://backup')
+    endpoints.failed('ws://backup')
+    expect(endpoints.next()).toBe('ws://spare')
+    endpoints.failed('ws://spare')
+    // all failed once, the one which failed longest ago is next
+    expect(endpoints.next()).toBe('ws://primary')
+    endpoints.succeeded('ws://spare')
+    expect(endpoints.next()).toBe('ws://spare')
+    expect(endpoints.current).toBe('ws://spare')
+  })
+
+  it('prefers the sticky primary, whenever it is as healthy as the others', () => {
+    endpoints = getEndpoints({ stickyPrimary: true })
+    endpoints.failed('ws://primary')
+    expect(endpoints.next()).toBe('ws://backup')
+    endpoints.succeeded('ws://backup')
+    expect(endpoints.next()).toBe('ws://backup')
+    endpoints.failed('ws://backup')
+    endpoints.failed('ws://spare')
+    expect(endpoints.next()).toBe('ws://primary')
+  })
+
+  it('tracks the health of the endpoints, also of urls it was not given', () => {
+    const spyNow = jest.spyOn(Date, 'now').mockReturnValue(1000)
+    endpoints = getEndpoints()
+    endpoints.failed('ws://backup')
+    endpoints.succeeded('ws://other')
+    expect(endpoints.health).toEqual([
+      { url: 'ws://primary', failures: 0, connects: 0, lastFailureAt: null, lastConnectedAt: null },
+      { url: 'ws://backup', failures: 1, connects: 0, lastFailureAt: 1000, lastConnectedAt: null },
+      { url: 'ws://spare', failures: 0, connects: 0, lastFailureAt: null, lastConnectedAt: null },
+      { url: 'ws://other', failures: 0, connects: 1, lastFailureAt: null, lastConnectedAt: 1000 }
+    ])
+    spyNow.mockRestore()
+  })
+
+  it('checks the sticky primary periodically, while connected to another endpoint', async () => {
+    available = Promise.resolve(false)
+    endpoints = getEndpoints({ stickyPrimary: true, failBackInterval: 100 })
+    endpoints.failed('ws://primary')
+    endpoints.succeeded('ws://backup')
+    jest.advanceTimersByTime(99)
+    expect(calls).toEqual([])
+    jest.advanceTimersByTime(1)
+    await flushPromises()
+    expect(calls).toEqual(['probe ws://primary'])
+    expect(endpoints.health[0].failures).toBe(2)
+
+    available = Promise.resolve(true)
+    jest.advanceTimersByTime(100)
+    await flushPromises()
+    expect(calls).toEqual(['probe ws://primary', 'probe ws://primary', 'fail-back ws://primary'])
+    expect(endpoints.health[0].failures).toBe(0)
+    expect(endpoints.next()).toBe('ws://primary')
+    jest.advanceTimersByTime(1000)
+    expect(calls.length).toBe(3)
+  })
+
+  it('treats a failing probe as unavailable and ignores probes finishing after stop', async () => {
+    available = Promise.reject(new Error('No websocket'))
+    endpoints = getEndpoints({ stickyPrimary: true, failBackInterval: 100 })
+    endpoints.succeeded('ws://backup')
+    jest.advanceTimersByTime(100)
+    await flushPromises()
+    expect(endpoints.health[0].failures).toBe(1)
+
+    available = Promise.resolve(true)
+    jest.advanceTimersByTime(100)
+    endpoints.stop()
+    await flushPromises()
+    expect(calls).toEqual(['probe ws://primary', 'probe ws://primary'])
+  })
+
+  it('does not check the primary without stickyPrimary or while connected to it', () => {
+    endpoints = getEndpoints({ failBackInterval: 100 })
+    endpoints.succeeded('ws://backup')
+    const sticky = getEndpoints({ stickyPrimary: true, failBackInterval: 100 })
+    sticky.succeeded('ws://primary')
+    jest.advanceTimersByTime(1000)
+    expect(calls).toEqual([])
+  })
+})
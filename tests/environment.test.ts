@@ -0,0 +1,29 @@
+import { defaultEnvironmentSignals } from '../src/environment'
+
+describe('Testing defaultEnvironmentSignals', () => {
+  it('reads navigator.onLine and document.visibilityState', () => {
+    const spyOnLine = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    const spyVisibility = jest.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden')
+    expect(defaultEnvironmentSignals.isOnline()).toBe(false)
+    expect(defaultEnvironmentSignals.isVisible()).toBe(false)
+    spyOnLine.mockReturnValue(true)
+    spyVisibility.mockReturnValue('visible')
+    expect(defaultEnvironmentSignals.isOnline()).toBe(true)
+    expect(defaultEnvironmentSignals.isVisible()).toBe(true)
+    spyOnLine.mockRestore()
+    spyVisibility.mockRestore()
+  })
+
+  it('calls the listener on online, offline and visibilitychange events until unsubscribed', () => {
+    const listener = jest.fn()
+    const unsubscribe = defaultEnvironmentSignals.subscribe(listener)
+    window.dispatchEvent(new Event('online'))
+    window.dispatchEvent(new Event('offline'))
+    document.dispatchEvent(new Event('visibilitychange'))
+    expect(listener).toHaveBeenCalledTimes(3)
+    unsubscribe()
+    window.dispatchEvent(new Event('online'))
+    document.dispatchEvent(new Event('visibilitychange'))
+    expect(listener).toHaveBeenCalledTimes(3)
+  })
+})
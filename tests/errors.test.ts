@@ -0,0 +1,41 @@
+import {
+  LabGuiError,
+  NotConnectedError,
+  ParseError,
+  ProtocolError,
+  SerializationError,
+  TimeoutError
+} from '../src/errors'
+import { ValidationError } from '../src/validation'
+
+describe('Testing errors', () => {
+  it('each error has its own name and code and keeps the payload', () => {
+    const payload = { status: 'laser' }
+    const errors: [LabGuiError, string, string][] = [
+      [new NotConnectedError('not open', payload), 'NotConnectedError', 'NOT_CONNECTED'],
+      [new ParseError('broken', payload), 'ParseError', 'PARSE_ERROR'],
+      [new SerializationError('circular', payload), 'SerializationError', 'SERIALIZATION_ERROR'],
+      [new TimeoutError('too late', payload), 'TimeoutError', 'TIMEOUT'],
+      [new ProtocolError('unexpected', payload), 'ProtocolError', 'PROTOCOL_ERROR'],
+      [
+        new ValidationError('inbound', 'laser', ['invalid'], payload),
+        'ValidationError',
+        'VALIDATION_ERROR'
+      ]
+    ]
+    errors.forEach(([error, name, code]) => {
+      expect(error).toBeInstanceOf(Error)
+      expect(error).toBeInstanceOf(LabGuiError)
+      expect(error.name).toBe(name)
+      expect(error.code).toBe(code)
+      expect(error.payload).toBe(payload)
+    })
+  })
+
+  it('the payload is optional', () => {
+    const error = new NotConnectedError('not open')
+    expect(error.message).toBe('not open')
+    expect(error.payload).toBeUndefined()
+    expect(error).not.toBeInstanceOf(TimeoutError)
+  })
+})
@@ -0,0 +1,69 @@
+import { LabGuiEvent, LabGuiEventTarget } from '../src/events'
+
+interface TestEvent extends LabGuiEvent {
+  type: 'test'
+  value: number
+}
+
+interface TestEventMap {
+  test: TestEvent
+}
+
+class TestTarget extends LabGuiEventTarget<TestEventMap> {
+  public ontest: ((event: TestEvent) => void) | null = null
+}
+
+describe('Testing LabGuiEventTarget', () => {
+  let target: TestTarget
+  let calls: string[]
+  const event: TestEvent = { type: 'test', value: 1 }
+
+  beforeEach(() => {
+    target = new TestTarget()
+    calls = []
+  })
+
+  it('calls the on<type> property and all listeners', () => {
+    target.ontest = () => calls.push('property')
+    target.addEventListener('test', e => calls.push(`first ${e.value}`))
+    target.addEventListener('test', { handleEvent: e => calls.push(`object ${e.value}`) })
+    expect(target.dispatchEvent(event)).toBe(true)
+    expect(calls).toEqual(['property', 'first 1', 'object 1'])
+  })
+
+  it('adds the same listener only once and removes it again', () => {
+    const listener = () => calls.push('listener')
+    target.removeEventListener('test', listener)
+    target.addEventListener('test', listener)
+    target.addEventListener('test', listener)
+    target.dispatchEvent(event)
+    target.removeEventListener('test', listener)
+    target.dispatchEvent(event)
+    expect(calls).toEqual(['listener'])
+  })
+
+  it('once listeners are removed after the first event', () => {
+    target.addEventListener('test', () => calls.push('once'), { once: true })
+    target.dispatchEvent(event)
+    target.dispatchEvent(event)
+    expect(calls).toEqual(['once'])
+  })
+
+  it('calls all listeners if one throws and rethrows the first error', () => {
+    target.addEventListener('test', () => {
+      throw new Error('first')
+    })
+    target.addEventListener('test', () => {
+      throw new Error('second')
+    })
+    target.addEventListener('test', () => calls.push('called'))
+    expect(() => target.dispatchEvent(event)).toThrow('first')
+    expect(calls).toEqual(['called'])
+  })
+
+  it('returns false for events whose default was prevented', () => {
+    expect(target.dispatchEvent({ type: 'test', value: 1, defaultPrevented: true } as any)).toBe(
+      false
+    )
+  })
+})
@@ -0,0 +1,78 @@
+import { Heartbeat } from '../src/heartbeat'
+
+describe('Testing Heartbeat', () => {
+  let calls: string[]
+  let heartbeat: Heartbeat
+
+  beforeEach(() => {
+    calls = []
+    jest.useFakeTimers()
+    heartbeat = new Heartbeat(
+      { interval: 100, timeout: 50 },
+      {
+        ping: () => calls.push('ping'),
+        latency: latency => calls.push(`latency ${latency}`),
+        dead: () => calls.push('dead')
+      }
+    )
+  })
+
+  afterEach(() => {
+    heartbeat.stop()
+    jest.useRealTimers()
+  })
+
+  it('uses the default statuses', () => {
+    expect(heartbeat.settings.pingStatus).toBe('ping')
+    expect(heartbeat.settings.pongStatus).toBe('pong')
+  })
+
+  it('sends pings after each interval and measures the latency of the pong', () => {
+    const spyNow = jest.spyOn(Date, 'now').mockReturnValue(1000)
+    heartbeat.start()
+    jest.advanceTimersByTime(99)
+    expect(calls).toEqual([])
+    jest.advanceTimersByTime(1)
+    expect(calls).toEqual(['ping'])
+    spyNow.mockReturnValue(1020)
+    heartbeat.pong()
+    expect(calls).toEqual(['ping', 'latency 20'])
+    jest.advanceTimersByTime(100)
+    expect(calls).toEqual(['ping', 'latency 20', 'ping'])
+    spyNow.mockRestore()
+  })
+
+  it('reports a dead connection if the pong is missing', () => {
+    heartbeat.start()
+    jest.advanceTimersByTime(149)
+    expect(calls).toEqual(['ping'])
+    jest.advanceTimersByTime(1)
+    expect(calls).toEqual(['ping', 'dead'])
+    jest.advanceTimersByTime(1000)
+    expect(calls).toEqual(['ping', 'dead'])
+  })
+
+  it('ignores pongs without a ping and stops on stop', () => {
+    heartbeat.start()
+    heartbeat.pong()
+    heartbeat.stop()
+    jest.advanceTimersByTime(1000)
+    expect(calls).toEqual([])
+  })
+
+  it('can be stopped by the latency callback', () => {
+    const stopping: Heartbeat = new Heartbeat(
+      { interval: 100 },
+      {
+        ping: () => calls.push('ping'),
+        latency: () => stopping.stop(),
+        dead: () => calls.push('dead')
+      }
+    )
+    stopping.start()
+    jest.advanceTimersByTime(100)
+    stopping.pong()
+    jest.advanceTimersByTime(1000)
+    expect(calls).toEqual(['ping'])
+  })
+})
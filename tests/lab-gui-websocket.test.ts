@@ -3,7 +3,36 @@
  */
 
 import { WebSocket as mockWebSocket, Server, CloseOptions } from 'mock-socket'
-import { LabGuiWebsocket, LabGuiWebsocketOptions, SendData } from '../src/lab-gui-websocket'
+import {
+  AuthOptions,
+  BroadcastChannelLike,
+  defaultTimers,
+  GapEvent,
+  LabGuiCloseEvent,
+  LabGuiErrorEvent,
+  LabGuiOpenEvent,
+  msgpackCodec,
+  NotConnectedError,
+  ParseError,
+  ProtocolError,
+  TimeoutError,
+  LabGuiWebsocket,
+  LabGuiWebsocketOptions,
+  LogRecord,
+  ReadyState,
+  ReconnectEvent,
+  ReconnectFailedEvent,
+  Recorder,
+  SendData,
+  SerializationError,
+  silentLogger,
+  StateChangeEvent,
+  Timers,
+  ValidationError,
+  ValidationErrorEvent,
+  WebSocketConstructor
+} from '../src/lab-gui-websocket'
+import { createReplayWebSocket, MockLabServer } from '../src/testing'
 
 const getMockLabGuiWebsocket = (
   url: string,
@@ -23,8 +52,8 @@ interface CustomMessageEvent extends Event {
 }
 
 const getDelay = (time: number): Promise<{}> => {
-  const delay = new Promise<{}>(function(resolve, reject) {
-    setTimeout(function() {
+  const delay = new Promise<{}>(function (resolve, reject) {
+    setTimeout(function () {
       resolve('foo')
     }, time)
   })
@@ -47,6 +76,7 @@ describe('Testing LabGuiWebsocket', () => {
     it('default WebSocket of LabGuiWebsocket global WebSocket', () => {
       const wsClient = new LabGuiWebsocket(url)
       expect(wsClient.wsInstance).toBeInstanceOf(WebSocket)
+      wsClient.close()
     })
 
     it('WebSocket of LabGuiWebsocket is mocked properly', () => {
@@ -97,7 +127,7 @@ describe('Testing LabGuiWebsocket', () => {
 
       const wsClient = getMockLabGuiWebsocket(url)
 
-      wsClient.onopen = (event: Event) => {
+      wsClient.onopen = event => {
         wsClient.send('onopen response from client')
       }
 
@@ -129,7 +159,7 @@ describe('Testing LabGuiWebsocket', () => {
 
       const messageObject = { status: 'test respone from string' }
 
-      wsClient.onopen = (event: Event) => {
+      wsClient.onopen = event => {
         wsClient.send('{"status": "test respone from string"}')
       }
 
@@ -160,7 +190,7 @@ describe('Testing LabGuiWebsocket', () => {
 
       const wsClient = getMockLabGuiWebsocket(url)
 
-      wsClient.onopen = (event: Event) => {
+      wsClient.onopen = event => {
         wsClient.send(messageObject)
       }
 
@@ -184,9 +214,9 @@ describe('Testing LabGuiWebsocket', () => {
 
     it('wait 3sec to create server and let the client autoconnect', done => {
       let mockServer: Server
-      const wsClient = getMockLabGuiWebsocket(url)
+      const wsClient = getMockLabGuiWebsocket(url, false, { reconnectDecay: 1 })
 
-      wsClient.onopen = (event: Event) => {
+      wsClient.onopen = event => {
         msgStringArray.push('connected')
       }
       const delay = getDelay(3000)
@@ -210,96 +240,2061 @@ describe('Testing LabGuiWebsocket', () => {
       // timeout only gets called because it isn't reset by clearTimeout,
       // which is why clearTimeout needs to be mocked
       jest.useFakeTimers()
-      const spyLog = jest.spyOn(global.console, 'log').mockImplementation()
       const spyClear = jest.spyOn(global, 'clearTimeout').mockImplementation()
       let mockServer = new Server(url)
-      const wsClient = getMockLabGuiWebsocket(url, true, {
-        timeoutInterval: 10
+      const records: LogRecord[] = []
+      const wsClient = getMockLabGuiWebsocket(url, false, {
+        timeoutInterval: 10,
+        logger: { ...silentLogger, warn: record => records.push(record) }
       })
       jest.runOnlyPendingTimers()
-      expect(spyLog).toHaveBeenCalled()
-      expect(spyLog).toHaveBeenNthCalledWith(
-        3,
-        'LabGuiWebsocket',
-        'connection-timeout',
-        'ws://localhost:8080'
-      )
-      spyLog.mockRestore()
+      expect(records[0]).toMatchObject({
+        level: 'warn',
+        event: 'connection-timeout',
+        url: 'ws://localhost:8080',
+        attempt: 0
+      })
       spyClear.mockRestore()
       wsClient.close()
       mockServer.close()
       mockServer.stop(done)
     })
   })
-  describe('Wanted exceptions and dev helper functions', () => {
-    const wsClient = getMockLabGuiWebsocket(url, false, {
-      automaticOpen: false
+
+  describe('reconnect backoff', () => {
+    const unreachableUrl: string = 'ws://localhost:8081'
+    let createdSockets: mockWebSocket[]
+
+    class CountingWebSocket extends mockWebSocket {
+      constructor(url: string, protocols?: string | string[]) {
+        super(url, protocols)
+        createdSockets.push(this)
+      }
+    }
+
+    const getBackoffClient = (options: LabGuiWebsocketOptions): LabGuiWebsocket =>
+      getMockLabGuiWebsocket(unreachableUrl, false, {
+        websocketClass: CountingWebSocket as any,
+        timeoutInterval: 60000,
+        ...options
+      })
+
+    beforeEach(() => {
+      createdSockets = []
+      jest.useFakeTimers()
     })
 
-    it('get_message_object of not a JSON parsable string msg.data', () => {
-      const exception = () => {
-        const falsyMsgEvent = {
-          data: '{"missing": "curly bracet to parse"'
-        } as MessageEvent
-        wsClient.get_message_object(falsyMsgEvent)
+    afterEach(() => {
+      // deliver the close events of the closed clients
+      jest.runOnlyPendingTimers()
+      jest.useRealTimers()
+    })
+
+    it('reconnect delay grows with reconnectDecay and is capped by maxReconnectInterval', () => {
+      // every failed connection closes after 4ms (mock-socket delay)
+      const wsClient = getBackoffClient({
+        reconnectInterval: 100,
+        reconnectDecay: 2,
+        maxReconnectInterval: 300
+      })
+      jest.advanceTimersByTime(103)
+      expect(createdSockets.length).toBe(1)
+      jest.advanceTimersByTime(1)
+      expect(createdSockets.length).toBe(2)
+      jest.advanceTimersByTime(203)
+      expect(createdSockets.length).toBe(2)
+      jest.advanceTimersByTime(1)
+      expect(createdSockets.length).toBe(3)
+      jest.advanceTimersByTime(303)
+      expect(createdSockets.length).toBe(3)
+      jest.advanceTimersByTime(1)
+      expect(createdSockets.length).toBe(4)
+      wsClient.close()
+    })
+
+    it('full and equal jitter randomise the reconnect delay', () => {
+      const spyRandom = jest.spyOn(Math, 'random').mockReturnValue(0.5)
+      const fullClient = getBackoffClient({ reconnectInterval: 100, reconnectJitter: 'full' })
+      jest.advanceTimersByTime(54)
+      expect(createdSockets.length).toBe(2)
+      fullClient.close()
+
+      createdSockets = []
+      const equalClient = getBackoffClient({ reconnectInterval: 100, reconnectJitter: 'equal' })
+      jest.advanceTimersByTime(78)
+      expect(createdSockets.length).toBe(1)
+      jest.advanceTimersByTime(1)
+      expect(createdSockets.length).toBe(2)
+      equalClient.close()
+      spyRandom.mockRestore()
+    })
+
+    it('gives up after maxReconnectAttempts and stays closed', () => {
+      const failedEvents: ReconnectFailedEvent[] = []
+      let closeCount = 0
+      const wsClient = getBackoffClient({
+        reconnectInterval: 10,
+        reconnectDecay: 1,
+        maxReconnectAttempts: 2
+      })
+      wsClient.onclose = () => closeCount++
+      wsClient.onreconnectfailed = (event: ReconnectFailedEvent) => failedEvents.push(event)
+      jest.advanceTimersByTime(1000)
+      expect(createdSockets.length).toBe(3)
+      expect(closeCount).toBe(1)
+      expect(failedEvents).toEqual([{ type: 'reconnectfailed', attempts: 2 }])
+      expect(wsClient.connectionState).toBe(WebSocket.CLOSED)
+      expect(wsClient.wsInstance).toBeNull()
+      expect(jest.getTimerCount()).toBe(0)
+    })
+
+    it('close cancels a pending reconnection attempt', () => {
+      const wsClient = getBackoffClient({ reconnectInterval: 100 })
+      jest.advanceTimersByTime(10)
+      expect(wsClient.close()).toBe(false)
+      expect(wsClient.connectionState).toBe(WebSocket.CLOSED)
+      jest.advanceTimersByTime(1000)
+      expect(createdSockets.length).toBe(1)
+    })
+
+    it('reconnect attempts are reset after a successful connection', () => {
+      const wsClient = getBackoffClient({
+        reconnectInterval: 10,
+        reconnectDecay: 1,
+        maxReconnectAttempts: 1
+      })
+      jest.advanceTimersByTime(10)
+      const mockServer = new Server(unreachableUrl)
+      jest.advanceTimersByTime(10)
+      expect(wsClient.connectionState).toBe(WebSocket.OPEN)
+      mockServer.close()
+      mockServer.stop()
+      jest.advanceTimersByTime(10)
+      expect(wsClient.connectionState).toBe(WebSocket.CONNECTING)
+      jest.advanceTimersByTime(100)
+      expect(wsClient.connectionState).toBe(WebSocket.CLOSED)
+      expect(createdSockets.length).toBe(3)
+    })
+
+    it('statechange events describe every transition of the connection state', () => {
+      const spyNow = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const changes: StateChangeEvent[] = []
+      const wsClient = getBackoffClient({
+        automaticOpen: false,
+        reconnectInterval: 10,
+        reconnectDecay: 1,
+        maxReconnectAttempts: 1
+      })
+      expect(wsClient.state).toBe('idle')
+      wsClient.onstatechange = (event: StateChangeEvent) => changes.push(event)
+      wsClient.connect(false)
+      expect(wsClient.state).toBe('connecting')
+      jest.advanceTimersByTime(100)
+      expect(wsClient.state).toBe('failed')
+      expect(changes).toEqual([
+        {
+          type: 'statechange',
+          previous: 'idle',
+          state: 'connecting',
+          reason: 'connect',
+          attempt: 0,
+          nextRetryAt: null
+        },
+        {
+          type: 'statechange',
+          previous: 'connecting',
+          state: 'backing-off',
+          reason: 'connection-lost',
+          attempt: 1,
+          nextRetryAt: 1010
+        },
+        {
+          type: 'statechange',
+          previous: 'backing-off',
+          state: 'reconnecting',
+          reason: 'connect',
+          attempt: 1,
+          nextRetryAt: null
+        },
+        {
+          type: 'statechange',
+          previous: 'reconnecting',
+          state: 'failed',
+          reason: 'max-reconnect-attempts',
+          attempt: 1,
+          nextRetryAt: null
+        }
+      ])
+      spyNow.mockRestore()
+    })
+
+    it('state goes through open, closing and closed', () => {
+      const mockServer = new Server(unreachableUrl)
+      const states: string[] = []
+      const wsClient = getBackoffClient({})
+      wsClient.addEventListener('statechange', event =>
+        states.push(`${event.state} ${event.reason}`)
+      )
+      jest.advanceTimersByTime(10)
+      expect(wsClient.state).toBe('open')
+      wsClient.close()
+      expect(wsClient.state).toBe('closing')
+      jest.advanceTimersByTime(10)
+      expect(states).toEqual(['open opened', 'closing close-requested', 'closed closed'])
+      mockServer.stop()
+    })
+
+    it('a connection timeout is the reason of the following backoff', () => {
+      const reasons: string[] = []
+      const wsClient = getBackoffClient({ timeoutInterval: 1, reconnectInterval: 100 })
+      wsClient.addEventListener('statechange', event => reasons.push(event.reason))
+      jest.advanceTimersByTime(10)
+      expect(wsClient.state).toBe('backing-off')
+      expect(reasons).toEqual(['connection-timeout'])
+      wsClient.close()
+      expect(wsClient.state).toBe('closed')
+    })
+  })
+
+  describe('close policy and reopening', () => {
+    let server: MockLabServer
+    let closes: LabGuiCloseEvent[]
+
+    const getPolicyClient = (options: LabGuiWebsocketOptions = {}): LabGuiWebsocket => {
+      const wsClient = new LabGuiWebsocket(url, {
+        websocketClass: server.websocketClass,
+        reconnectInterval: 100,
+        reconnectDecay: 1,
+        closePolicy: [
+          { name: 'auth-failed', codes: [4001], action: 'stop' },
+          { name: 'maintenance', reason: 'maintenance', action: 'stop' },
+          { name: 'restart', codes: { from: 4500, to: 4599 }, action: 1000 }
+        ],
+        ...options
+      })
+      wsClient.onclose = event => closes.push(event as LabGuiCloseEvent)
+      return wsClient
+    }
+
+    beforeEach(() => {
+      server = new MockLabServer()
+      closes = []
+      jest.useFakeTimers()
+    })
+
+    afterEach(() => {
+      // deliver the close events of the closed clients
+      jest.runOnlyPendingTimers()
+      jest.useRealTimers()
+    })
+
+    it('close sends the code and reason and open connects again', () => {
+      const wsClient = getPolicyClient()
+      jest.advanceTimersByTime(0)
+      expect(wsClient.close(4000, 'Done')).toBe(true)
+      jest.advanceTimersByTime(0)
+      expect(closes).toEqual([
+        {
+          type: 'close',
+          code: 4000,
+          reason: 'Done',
+          wasClean: true,
+          rule: 'close-requested',
+          action: 'stop'
+        }
+      ])
+      expect(wsClient.state).toBe('closed')
+      wsClient.open()
+      jest.advanceTimersByTime(0)
+      expect(wsClient.state).toBe('open')
+      expect(wsClient.connectionState).toBe(ReadyState.OPEN)
+      expect(server.connectionAttempts).toBe(2)
+      // open does nothing while the connection is open
+      wsClient.open()
+      jest.advanceTimersByTime(0)
+      expect(server.connectionAttempts).toBe(2)
+      wsClient.close()
+    })
+
+    it('close called by a listener of the close event stops reconnecting', () => {
+      const wsClient = getPolicyClient()
+      jest.advanceTimersByTime(0)
+      wsClient.addEventListener('close', event => {
+        if ((event as LabGuiCloseEvent).action === 'reconnect') {
+          expect(wsClient.close()).toBe(false)
+        }
+      })
+      server.disconnect()
+      jest.advanceTimersByTime(1000)
+      expect(closes.map(({ rule, action }) => [rule, action])).toEqual([
+        ['default', 'reconnect'],
+        ['close-requested', 'stop']
+      ])
+      expect(wsClient.state).toBe('closed')
+      expect(wsClient.connectionState).toBe(ReadyState.CLOSED)
+      expect(server.connectionAttempts).toBe(1)
+    })
+
+    it('close while waiting to reconnect ends with a close event', () => {
+      const wsClient = getPolicyClient()
+      jest.advanceTimersByTime(0)
+      server.disconnect()
+      jest.advanceTimersByTime(0)
+      expect(wsClient.state).toBe('backing-off')
+      expect(wsClient.close(4000, 'Done')).toBe(false)
+      expect(closes.map(({ code, reason, rule, action }) => [code, reason, rule, action])).toEqual([
+        [1006, '', 'default', 'reconnect'],
+        [4000, 'Done', 'close-requested', 'stop']
+      ])
+      expect(wsClient.state).toBe('closed')
+      jest.advanceTimersByTime(1000)
+      expect(server.connectionAttempts).toBe(1)
+    })
+
+    it('open while closing reopens the connection once it is closed', () => {
+      const wsClient = getPolicyClient()
+      jest.advanceTimersByTime(0)
+      wsClient.close()
+      wsClient.open()
+      jest.advanceTimersByTime(0)
+      expect(closes.map(({ rule, action }) => [rule, action])).toEqual([
+        ['reconnect-requested', 'reconnect']
+      ])
+      expect(wsClient.state).toBe('open')
+      expect(server.connections.length).toBe(1)
+      wsClient.close()
+    })
+
+    it('reconnect replaces the connection right away', () => {
+      const wsClient = getPolicyClient({ automaticOpen: false })
+      wsClient.reconnect()
+      expect(wsClient.state).toBe('connecting')
+      jest.advanceTimersByTime(0)
+      const first = server.connections[0]
+      wsClient.reconnect(4000, 'Switching')
+      jest.advanceTimersByTime(0)
+      expect(first.isOpen).toBe(false)
+      expect(closes.map(({ code, rule }) => [code, rule])).toEqual([[4000, 'reconnect-requested']])
+      expect(wsClient.state).toBe('open')
+      expect(server.connectionAttempts).toBe(2)
+      wsClient.close()
+    })
+
+    it('stops reconnecting when a stop rule applies and reconnect starts over', () => {
+      const wsClient = getPolicyClient()
+      jest.advanceTimersByTime(0)
+      server.disconnect(4001, 'Invalid token')
+      jest.advanceTimersByTime(1000)
+      expect(closes.map(({ code, rule, action }) => [code, rule, action])).toEqual([
+        [4001, 'auth-failed', 'stop']
+      ])
+      expect(wsClient.state).toBe('closed')
+      expect(wsClient.connectionState).toBe(ReadyState.CLOSED)
+      expect(server.connectionAttempts).toBe(1)
+      wsClient.reconnect()
+      expect(wsClient.state).toBe('reconnecting')
+      jest.advanceTimersByTime(0)
+      expect(wsClient.state).toBe('open')
+      wsClient.close()
+    })
+
+    it('the final close event of a failed reconnection attempt names the rule', () => {
+      const wsClient = getPolicyClient()
+      jest.advanceTimersByTime(0)
+      server.refuse(2, 4002, 'Down for maintenance')
+      server.disconnect()
+      jest.advanceTimersByTime(1000)
+      expect(closes.map(({ code, rule, action }) => [code, rule, action])).toEqual([
+        [1006, 'default', 'reconnect'],
+        [4002, 'maintenance', 'stop']
+      ])
+      expect(server.connectionAttempts).toBe(2)
+      expect(wsClient.state).toBe('closed')
+    })
+
+    it('reconnects after the delay of the rule', () => {
+      const reconnects: ReconnectEvent[] = []
+      const wsClient = getPolicyClient()
+      wsClient.onreconnect = event => reconnects.push(event)
+      jest.advanceTimersByTime(0)
+      server.disconnect(4503, 'Restarting')
+      jest.advanceTimersByTime(999)
+      expect(wsClient.state).toBe('backing-off')
+      jest.advanceTimersByTime(1)
+      expect(wsClient.state).toBe('open')
+      expect(reconnects).toEqual([{ type: 'reconnect', attempt: 1, delay: 1000 }])
+      expect(closes.map(({ rule, action }) => [rule, action])).toEqual([['restart', 'reconnect']])
+      // the pending reconnection attempt is made right away
+      server.disconnect(4503, 'Restarting')
+      jest.advanceTimersByTime(10)
+      wsClient.reconnect()
+      jest.advanceTimersByTime(0)
+      expect(wsClient.state).toBe('open')
+      expect(server.connectionAttempts).toBe(3)
+      wsClient.close()
+    })
+
+    it('the close event tells when reconnecting gives up', () => {
+      const wsClient = getPolicyClient({ maxReconnectAttempts: 0 })
+      jest.advanceTimersByTime(0)
+      server.disconnect()
+      jest.advanceTimersByTime(0)
+      expect(closes.map(({ rule, action }) => [rule, action])).toEqual([
+        ['max-reconnect-attempts', 'stop']
+      ])
+      expect(wsClient.state).toBe('failed')
+      wsClient.open()
+      jest.advanceTimersByTime(0)
+      expect(wsClient.state).toBe('open')
+      wsClient.close()
+    })
+  })
+
+  describe('network and visibility aware reconnecting', () => {
+    let server: MockLabServer
+    let listeners: (() => void)[]
+    const environment = {
+      online: true,
+      visible: true,
+      isOnline: () => environment.online,
+      isVisible: () => environment.visible,
+      subscribe: (listener: () => void) => {
+        listeners.push(listener)
+        return () => listeners.splice(listeners.indexOf(listener), 1)
       }
+    }
 
-      expect(exception).toThrow(new TypeError("The recived message couldn't be parsed to JSON."))
+    const change = (online: boolean, visible: boolean = true) => {
+      environment.online = online
+      environment.visible = visible
+      listeners.forEach(listener => listener())
+    }
+
+    const getEnvironmentClient = (options: LabGuiWebsocketOptions = {}): LabGuiWebsocket =>
+      new LabGuiWebsocket(url, {
+        websocketClass: server.websocketClass,
+        reconnectInterval: 10000,
+        environment,
+        ...options
+      })
+
+    beforeEach(() => {
+      server = new MockLabServer()
+      listeners = []
+      environment.online = true
+      environment.visible = true
+      jest.useFakeTimers()
     })
 
-    it('get_message_object of not string msg.data', () => {
-      const exception = () => {
-        const falsyMsgEvent = {
-          data: 1
-        } as MessageEvent
-        wsClient.get_message_object(falsyMsgEvent)
+    afterEach(() => {
+      jest.runOnlyPendingTimers()
+      jest.useRealTimers()
+    })
+
+    it('pauses reconnecting while offline and reconnects right away when online', () => {
+      const changes: StateChangeEvent[] = []
+      const wsClient = getEnvironmentClient()
+      wsClient.onstatechange = event => changes.push(event)
+      jest.advanceTimersByTime(0)
+      change(false)
+      server.disconnect()
+      jest.advanceTimersByTime(60000)
+      expect(server.connectionAttempts).toBe(1)
+      expect(wsClient.state).toBe('backing-off')
+      expect(changes[changes.length - 1]).toMatchObject({ reason: 'offline', nextRetryAt: null })
+      // reconnecting doesn't wait for the page to become visible by default
+      change(true, false)
+      expect(wsClient.state).toBe('reconnecting')
+      jest.advanceTimersByTime(0)
+      expect(wsClient.state).toBe('open')
+      expect(server.connectionAttempts).toBe(2)
+      wsClient.close()
+      jest.advanceTimersByTime(0)
+      expect(listeners).toEqual([])
+    })
+
+    it('pauses a scheduled reconnection attempt, if the network went down meanwhile', () => {
+      const wsClient = getEnvironmentClient()
+      jest.advanceTimersByTime(0)
+      server.disconnect()
+      jest.advanceTimersByTime(0)
+      change(false)
+      jest.advanceTimersByTime(10000)
+      expect(server.connectionAttempts).toBe(1)
+      expect(wsClient.state).toBe('backing-off')
+      wsClient.open()
+      expect(server.connectionAttempts).toBe(1)
+      wsClient.reconnect()
+      jest.advanceTimersByTime(0)
+      expect(wsClient.state).toBe('open')
+      wsClient.close()
+    })
+
+    it('skips the rest of the reconnect delay when the network is back', () => {
+      const wsClient = getEnvironmentClient()
+      jest.advanceTimersByTime(0)
+      server.disconnect()
+      jest.advanceTimersByTime(0)
+      // signals which didn't come back don't cut the delay short
+      change(true)
+      change(false)
+      change(false)
+      expect(wsClient.state).toBe('backing-off')
+      change(true)
+      jest.advanceTimersByTime(0)
+      expect(wsClient.state).toBe('open')
+      expect(server.connectionAttempts).toBe(2)
+      wsClient.close()
+    })
+
+    it('pauses reconnecting while the page is hidden, if pauseWhenHidden is set', () => {
+      const wsClient = getEnvironmentClient({ pauseWhenHidden: true })
+      jest.advanceTimersByTime(0)
+      change(true, false)
+      server.disconnect()
+      jest.advanceTimersByTime(60000)
+      expect(server.connectionAttempts).toBe(1)
+      wsClient.close()
+      expect(wsClient.state).toBe('closed')
+      expect(listeners).toEqual([])
+      change(true, true)
+      jest.advanceTimersByTime(60000)
+      expect(server.connectionAttempts).toBe(1)
+
+      wsClient.reconnect()
+      jest.advanceTimersByTime(0)
+      change(true, false)
+      server.disconnect()
+      jest.advanceTimersByTime(0)
+      change(true, true)
+      jest.advanceTimersByTime(0)
+      expect(wsClient.state).toBe('open')
+      expect(server.connectionAttempts).toBe(3)
+      wsClient.close()
+    })
+  })
+
+  describe('multiple endpoints', () => {
+    const primary = 'ws://primary'
+    const backup = 'ws://backup'
+    let servers: { [url: string]: MockLabServer }
+    let opened: string[]
+
+    // websockets connect to the server of their url
+    function websocketClass(socketUrl: string, protocols?: string | string[]) {
+      return new servers[socketUrl].websocketClass(socketUrl, protocols)
+    }
+
+    const getEndpointClient = (
+      urls: string[] | (() => Promise<string>),
+      options: LabGuiWebsocketOptions = {}
+    ): LabGuiWebsocket => {
+      const wsClient = new LabGuiWebsocket(urls, {
+        websocketClass: websocketClass as unknown as WebSocketConstructor,
+        reconnectInterval: 100,
+        reconnectDecay: 1,
+        ...options
+      })
+      wsClient.onopen = event => opened.push((event as LabGuiOpenEvent).url)
+      return wsClient
+    }
+
+    const flushPromises = async () => {
+      for (let i = 0; i < 10; i++) {
+        await Promise.resolve()
       }
+    }
 
-      expect(exception).toThrow(new TypeError("The recived message wasn't a string."))
+    beforeEach(() => {
+      servers = { [primary]: new MockLabServer(), [backup]: new MockLabServer() }
+      opened = []
+      jest.useFakeTimers()
     })
 
-    it('send wrong formated data', () => {
-      const exception = () => {
-        wsClient.send(1 as any)
+    afterEach(() => {
+      jest.runOnlyPendingTimers()
+      jest.useRealTimers()
+    })
+
+    it('fails over to the healthiest endpoint and reports it in the open event', () => {
+      servers[primary].refuse(1)
+      const wsClient = getEndpointClient([primary, backup])
+      jest.advanceTimersByTime(0)
+      expect(wsClient.activeUrl).toBe(primary)
+      expect(wsClient.state).toBe('backing-off')
+      jest.advanceTimersByTime(100)
+      expect(opened).toEqual([backup])
+      expect(wsClient.activeUrl).toBe(backup)
+
+      // a lost connection is retried with the same endpoint
+      servers[backup].disconnect()
+      jest.advanceTimersByTime(100)
+      expect(opened).toEqual([backup, backup])
+
+      // both failed once, the one which failed longest ago goes first
+      servers[backup].refuse(1)
+      servers[backup].disconnect()
+      jest.advanceTimersByTime(100)
+      jest.advanceTimersByTime(100)
+      expect(opened).toEqual([backup, backup, primary])
+      expect(wsClient.endpointHealth).toEqual([
+        expect.objectContaining({ url: primary, failures: 0, connects: 1 }),
+        expect.objectContaining({ url: backup, failures: 1, connects: 2 })
+      ])
+      wsClient.close()
+    })
+
+    it('switches back to the sticky primary, once it is available again', async () => {
+      servers[primary].refuse(2)
+      const closes: LabGuiCloseEvent[] = []
+      const wsClient = getEndpointClient([primary, backup], {
+        endpoints: { stickyPrimary: true, failBackInterval: 1000 }
+      })
+      wsClient.onclose = event => closes.push(event as LabGuiCloseEvent)
+      jest.advanceTimersByTime(100)
+      expect(opened).toEqual([backup])
+
+      // the primary is still down on the first check
+      jest.advanceTimersByTime(1000)
+      await flushPromises()
+      expect(servers[primary].connectionAttempts).toBe(2)
+      expect(opened).toEqual([backup])
+
+      jest.advanceTimersByTime(1000)
+      await flushPromises()
+      jest.advanceTimersByTime(0)
+      expect(closes.map(close => [close.rule, close.action])).toEqual([
+        ['default', 'reconnect'],
+        ['fail-back', 'reconnect']
+      ])
+      jest.advanceTimersByTime(0)
+      expect(opened).toEqual([backup, primary])
+      // the probe and the connection
+      expect(servers[primary].connectionAttempts).toBe(4)
+      expect(wsClient.state).toBe('open')
+
+      // no further checks while connected to the primary
+      jest.advanceTimersByTime(5000)
+      expect(servers[primary].connectionAttempts).toBe(4)
+      wsClient.close()
+    })
+
+    it('asks the url provider before each connection attempt', async () => {
+      const errors: LabGuiErrorEvent[] = []
+      const answers: (string | Error)[] = [backup, new Error('Discovery failed'), primary]
+      const provider = () => {
+        const answer = answers.shift() as string | Error
+        return typeof answer === 'string' ? Promise.resolve(answer) : Promise.reject(answer)
       }
-      const errorMsg =
-        'The data to be sent need to be a string or an object of form ' +
-        '{"status": "control_status", "data":{...ui_settings} }'
+      const wsClient = getEndpointClient(provider)
+      wsClient.addEventListener('error', event => errors.push(event as LabGuiErrorEvent))
+      expect(wsClient.activeUrl).toBe('')
+      await flushPromises()
+      jest.advanceTimersByTime(0)
+      expect(opened).toEqual([backup])
 
-      expect(exception).toThrow(new TypeError(errorMsg))
+      servers[backup].disconnect(1001)
+      jest.advanceTimersByTime(100)
+      await flushPromises()
+      expect(errors.map(event => [event.error.message, event.context.operation])).toEqual([
+        ['Discovery failed', 'connect']
+      ])
+      expect(wsClient.state).toBe('backing-off')
+      jest.advanceTimersByTime(100)
+      await flushPromises()
+      jest.advanceTimersByTime(0)
+      expect(opened).toEqual([backup, primary])
+      expect(wsClient.endpointHealth.map(health => health.url)).toEqual([backup, primary])
+      wsClient.close()
     })
 
-    it('send before client is connect', () => {
-      const exception = () => {
-        wsClient.send('')
+    it('retries if no websocket can be created for the url of the provider', async () => {
+      const errors: LabGuiErrorEvent[] = []
+      const answers = ['ws://malformed', primary]
+      const wsClient = getEndpointClient(() => Promise.resolve(answers.shift() as string))
+      wsClient.addEventListener('error', event => errors.push(event as LabGuiErrorEvent))
+      await flushPromises()
+      expect(errors.map(event => event.context.operation)).toEqual(['connect'])
+      expect(wsClient.wsInstance).toBeNull()
+      expect(wsClient.state).toBe('backing-off')
+      jest.advanceTimersByTime(100)
+      await flushPromises()
+      jest.advanceTimersByTime(0)
+      expect(opened).toEqual([primary])
+      wsClient.close()
+      expect(wsClient.state).toBe('closing')
+    })
+
+    it('close cancels waiting for the url provider', async () => {
+      const wsClient = getEndpointClient(() => Promise.resolve(primary))
+      expect(wsClient.close()).toBe(false)
+      expect(wsClient.state).toBe('closed')
+      await flushPromises()
+      jest.advanceTimersByTime(0)
+      expect(servers[primary].connectionAttempts).toBe(0)
+      wsClient.open()
+      await flushPromises()
+      jest.advanceTimersByTime(0)
+      expect(opened).toEqual([primary])
+      wsClient.close()
+    })
+
+    it('needs at least one url', () => {
+      expect(() => getEndpointClient([])).toThrow('At least one url is needed to connect to.')
+    })
+  })
+
+  describe('authentication', () => {
+    let server: MockLabServer
+    let valid: string[]
+    let tokens: string[]
+    let events: string[]
+
+    const flushPromises = async () => {
+      for (let i = 0; i < 10; i++) {
+        await Promise.resolve()
       }
+    }
 
-      expect(exception).toThrow(new Error('INVALID_STATE_ERR : Pausing to reconnect websocket'))
+    const getAuthClient = (auth: Partial<AuthOptions> = {}): LabGuiWebsocket => {
+      const wsClient = new LabGuiWebsocket(url, {
+        websocketClass: server.websocketClass,
+        reconnectInterval: 100,
+        auth: {
+          getToken: refresh => Promise.resolve(tokens[refresh ? 1 : 0]),
+          ...auth
+        }
+      })
+      wsClient.onopen = () => events.push('open')
+      wsClient.onclose = event => {
+        const { rule, action } = event as LabGuiCloseEvent
+        events.push(`close ${rule} ${action}`)
+      }
+      return wsClient
+    }
+
+    beforeEach(() => {
+      server = new MockLabServer()
+      server.on('auth', (message, connection) => {
+        const token = (message.data as { token: string }).token
+        if (valid.indexOf(token) !== -1) {
+          return { status: 'auth-ok' }
+        }
+        connection.close(4001, 'Token expired')
+      })
+      valid = ['cached']
+      tokens = ['cached', 'fresh']
+      events = []
+      jest.useFakeTimers()
     })
 
-    it("message_logic wasn't overwritten", () => {
-      const exception = () => {
-        wsClient.message_logic({})
+    afterEach(() => {
+      jest.runOnlyPendingTimers()
+      jest.useRealTimers()
+    })
+
+    it('sends the token first and opens once the server accepted it', async () => {
+      server.on('auth', () => undefined)
+      const wsClient = getAuthClient()
+      await flushPromises()
+      jest.advanceTimersByTime(0)
+      expect(server.received).toEqual([{ status: 'auth', data: { token: 'cached' } }])
+      expect(wsClient.connectionState).toBe(ReadyState.CONNECTING)
+      expect(() => wsClient.send({ status: 'laser' })).toThrow(NotConnectedError)
+      expect(events).toEqual([])
+      server.connections[0].send({ status: 'auth-ok' })
+      jest.advanceTimersByTime(0)
+      expect(events).toEqual(['open'])
+      expect(wsClient.state).toBe('open')
+      wsClient.close()
+    })
+
+    it('refreshes a rejected token and stops, if the new one is rejected as well', async () => {
+      valid = ['fresh']
+      const wsClient = getAuthClient()
+      await flushPromises()
+      jest.advanceTimersByTime(0)
+      expect(events).toEqual(['close auth-refresh reconnect'])
+      await flushPromises()
+      jest.advanceTimersByTime(0)
+      expect(events).toEqual(['close auth-refresh reconnect', 'open'])
+      expect(server.received.map(message => message.data)).toEqual([
+        { token: 'cached' },
+        { token: 'fresh' }
+      ])
+
+      // the refreshed token expires as well
+      valid = []
+      server.disconnect(4001)
+      jest.advanceTimersByTime(0)
+      await flushPromises()
+      jest.advanceTimersByTime(0)
+      expect(events.slice(2)).toEqual(['close auth-refresh reconnect', 'close auth-rejected stop'])
+      expect(wsClient.state).toBe('closed')
+    })
+
+    it('rejects the token with a reply and sends it as subprotocol', async () => {
+      server.on('auth', () => ({ status: 'auth-rejected' }))
+      server.onConnection(connection => ({
+        status: connection.protocols[0] === 'bearer.fresh' ? 'auth-ok' : 'auth-rejected'
+      }))
+      const wsClient = getAuthClient({ transport: 'protocol' })
+      await flushPromises()
+      jest.advanceTimersByTime(0)
+      expect(events).toEqual(['close auth-refresh reconnect'])
+      await flushPromises()
+      jest.advanceTimersByTime(0)
+      expect(events).toEqual(['close auth-refresh reconnect', 'open'])
+      expect(server.connections[0].protocols).toEqual(['bearer.fresh'])
+      expect(server.received).toEqual([])
+      wsClient.close()
+    })
+
+    it('reconnects if the token is not accepted in time', async () => {
+      server.on('auth', () => undefined)
+      const wsClient = getAuthClient({ timeout: 1000 })
+      await flushPromises()
+      jest.advanceTimersByTime(999)
+      expect(events).toEqual([])
+      jest.advanceTimersByTime(1)
+      jest.advanceTimersByTime(0)
+      expect(events).toEqual(['close auth-timeout reconnect'])
+      expect(wsClient.state).toBe('backing-off')
+      wsClient.close()
+    })
+
+    it('reconnects if the token can not be fetched', async () => {
+      const errors: LabGuiErrorEvent[] = []
+      const wsClient = getAuthClient({ getToken: () => Promise.reject(new Error('No session')) })
+      wsClient.addEventListener('error', event => errors.push(event as LabGuiErrorEvent))
+      await flushPromises()
+      expect(errors.map(event => [event.error.message, event.context.operation])).toEqual([
+        ['No session', 'connect']
+      ])
+      expect(wsClient.state).toBe('backing-off')
+      expect(server.connectionAttempts).toBe(0)
+      wsClient.close()
+    })
+  })
+
+  describe('event listeners', () => {
+    it('multiple listeners receive the connection events next to the on properties', done => {
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        socket.send('connected')
+      })
+
+      const events: string[] = []
+      const wsClient = getMockLabGuiWebsocket(url, false, { reconnectInterval: 10 })
+      wsClient.onopen = () => events.push('onopen')
+      wsClient.onmessage = () => events.push('onmessage')
+      wsClient.addEventListener('open', () => events.push('open listener'))
+      wsClient.addEventListener('message', (event: MessageEvent) => events.push(event.data))
+      wsClient.addEventListener('close', () => events.push('close listener'))
+      wsClient.addEventListener('reconnect', event => events.push(`reconnect ${event.attempt}`))
+      wsClient.addEventListener('connecting', event => events.push(`connecting ${event.attempt}`))
+
+      setTimeout(() => {
+        mockServer.close()
+        mockServer.stop(() => {
+          expect(events).toEqual([
+            'onopen',
+            'open listener',
+            'onmessage',
+            'connected',
+            'connecting 0',
+            'close listener',
+            'reconnect 1'
+          ])
+          wsClient.close()
+          done()
+        })
+      }, 50)
+    })
+
+    it('reconnectfailed listeners are notified when giving up', done => {
+      const wsClient = getMockLabGuiWebsocket('ws://localhost:8081', false, {
+        maxReconnectAttempts: 0
+      })
+      wsClient.addEventListener('reconnectfailed', event => {
+        expect(event.attempts).toBe(0)
+        expect(wsClient.connectionState).toBe(WebSocket.CLOSED)
+        done()
+      })
+    })
+
+    it('rethrows errors of listeners asynchronously, without interrupting reconnecting', () => {
+      jest.useFakeTimers()
+      const server = new MockLabServer()
+      const wsClient = new LabGuiWebsocket(url, {
+        websocketClass: server.websocketClass,
+        reconnectInterval: 10,
+        reconnectDecay: 1
+      })
+      wsClient.onclose = () => {
+        throw new Error('close listener failed')
       }
-      const errorMsg =
-        'The method `message_logic` should be overwritten and used to ' +
-        'do all the business logic on recieved messages objects'
-      expect(exception).toThrow(errorMsg)
+      wsClient.addEventListener('statechange', event => {
+        if (event.state === 'open') {
+          throw new Error('statechange listener failed')
+        }
+      })
+      expect(() => jest.advanceTimersByTime(0)).toThrow('statechange listener failed')
+      expect(wsClient.state).toBe('open')
+      server.disconnect()
+      expect(() => jest.advanceTimersByTime(0)).toThrow('close listener failed')
+      expect(wsClient.state).toBe('backing-off')
+      expect(() => jest.advanceTimersByTime(10)).toThrow('statechange listener failed')
+      expect(wsClient.state).toBe('open')
+      expect(server.connectionAttempts).toBe(2)
+      wsClient.onclose = () => undefined
+      wsClient.close()
+      jest.runOnlyPendingTimers()
+      jest.useRealTimers()
     })
+  })
 
-    it("message_logic wasn't overwritten", () => {
-      expect(wsClient.close()).toBe(false)
+  describe('heartbeat', () => {
+    it('measures the latency with ping and pong without passing the pong on', done => {
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        socket.on('message', (msg: string) => {
+          const ping: SendData = JSON.parse(msg)
+          expect(ping.status).toBe('heartbeat_ping')
+          socket.send(JSON.stringify({ status: 'pong' }))
+        })
+      })
+
+      const wsClient = getMockLabGuiWebsocket(url, false, {
+        heartbeat: { interval: 10, pingStatus: 'heartbeat_ping' }
+      })
+      wsClient.onmessage = () => done.fail('The pong should not be passed on')
+      expect(wsClient.latency).toBeNull()
+      wsClient.addEventListener('latency', event => {
+        expect(event.latency).toBeGreaterThanOrEqual(0)
+        expect(wsClient.latency).toBe(event.latency)
+        wsClient.close()
+        mockServer.close()
+        mockServer.stop(done)
+      })
     })
 
-    it('logging if debug is activated', () => {
-      const debugClient = getMockLabGuiWebsocket(url, true, { automaticOpen: false })
-      const spy = jest.spyOn(global.console, 'log').mockImplementation()
-      const message = new MessageEvent('test', { data: '{ "test": 1 }' })
-      debugClient.get_message_object(message)
-      expect(spy).toHaveBeenCalled()
-      expect(spy).toHaveBeenCalledWith('LabGuiWebsocket resolved message to msgObject: ', {
-        test: 1
+    it('reconnects if the pong does not arrive in time', done => {
+      const mockServer = new Server(url)
+      const wsClient = getMockLabGuiWebsocket(url, false, {
+        heartbeat: { interval: 10, timeout: 10 }
+      })
+      let closeEvent: LabGuiCloseEvent
+      wsClient.onclose = event => {
+        closeEvent = event as LabGuiCloseEvent
+      }
+      wsClient.addEventListener('reconnect', () => {
+        expect(closeEvent.code).toBe(4000)
+        expect(closeEvent.reason).toBe('Heartbeat timeout')
+        expect(closeEvent.rule).toBe('heartbeat-timeout')
+        expect(wsClient.wsInstance).toBeNull()
+        wsClient.close()
+        mockServer.close()
+        mockServer.stop(done)
+      })
+    })
+  })
+
+  describe('resumable sessions', () => {
+    it('resumes after a reconnect and drops replayed duplicates', done => {
+      let connections = 0
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        connections++
+        if (connections === 1) {
+          socket.send(JSON.stringify({ status: 'update', seq: 1, data: 1 }))
+          socket.send(JSON.stringify({ status: 'update', seq: 2, data: 2 }))
+          setTimeout(() => socket.close(), 10)
+        } else {
+          socket.on('message', (msg: string) => {
+            expect(JSON.parse(msg)).toEqual({ status: 'resume', data: { lastSeq: 2 } })
+            socket.send(JSON.stringify({ status: 'update', seq: 2, data: 2 }))
+            socket.send(JSON.stringify({ status: 'update', seq: 3, data: 3 }))
+          })
+        }
+      })
+
+      const received: number[] = []
+      const wsClient = getMockLabGuiWebsocket(url, false, {
+        reconnectInterval: 10,
+        session: {}
+      })
+      wsClient.ongap = () => done.fail('No messages were missed')
+      wsClient.on('update', (data: number) => {
+        received.push(data)
+        if (data === 3) {
+          expect(received).toEqual([1, 2, 3])
+          expect(wsClient.lastSequence).toBe(3)
+          wsClient.close()
+          mockServer.stop(done)
+        }
+      })
+    })
+
+    it('announces skipped sequence numbers and failed resumes as gaps', done => {
+      let connections = 0
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        connections++
+        if (connections === 1) {
+          socket.send(JSON.stringify({ status: 'update', seq: 1 }))
+          socket.send(JSON.stringify({ status: 'update', seq: 4 }))
+          setTimeout(() => socket.close(), 10)
+        } else {
+          socket.on('message', () => {
+            socket.send(JSON.stringify({ status: 'resume_failed' }))
+          })
+        }
       })
+
+      const gaps: GapEvent[] = []
+      const wsClient = getMockLabGuiWebsocket(url, false, {
+        reconnectInterval: 10,
+        session: {}
+      })
+      wsClient.on('update', () => undefined)
+      wsClient.addEventListener('gap', event => {
+        gaps.push(event)
+        if (event.reason === 'resume-failed') {
+          expect(gaps).toEqual([
+            { type: 'gap', reason: 'sequence', lastSeq: 1, received: 4 },
+            { type: 'gap', reason: 'resume-failed', lastSeq: 4, received: null }
+          ])
+          expect(wsClient.lastSequence).toBeNull()
+          wsClient.close()
+          mockServer.stop(done)
+        }
+      })
+    })
+  })
+
+  describe('channels', () => {
+    it('channels share the connection and are subscribed again after a reconnect', done => {
+      let connections = 0
+      const received: string[] = []
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        connections++
+        socket.on('message', (msg: string) => {
+          const msgObject: SendData = JSON.parse(msg)
+          received.push(`${connections} ${msgObject.status} ${msgObject.channel}`)
+          if (msgObject.status === 'subscribe' && msgObject.channel === 'laser') {
+            socket.send(JSON.stringify({ status: 'power', data: connections, channel: 'laser' }))
+          }
+          if (msgObject.status === 'ready') {
+            socket.close()
+          }
+        })
+      })
+
+      const wsClient = getMockLabGuiWebsocket(url, false, { reconnectInterval: 10 })
+      wsClient.on('power', () => done.fail('Channel messages should only be passed to the channel'))
+      const laser = wsClient.channel<{ power: number }>('laser')
+      const temperature = wsClient.channel('temperature')
+      expect(wsClient.channel('laser')).toBe(laser)
+      const lifecycle: string[] = []
+      laser.addEventListener('open', () => lifecycle.push('open'))
+      laser.addEventListener('close', () => lifecycle.push('close'))
+      laser.on('power', (power: number) => {
+        if (power === 1) {
+          temperature.close()
+          laser.send({ status: 'ready' })
+        } else {
+          expect(lifecycle).toEqual(['open', 'close', 'open'])
+          expect(received).toEqual([
+            '1 subscribe laser',
+            '1 subscribe temperature',
+            '1 unsubscribe temperature',
+            '1 ready laser',
+            '2 subscribe laser'
+          ])
+          wsClient.addEventListener('close', () => {
+            expect(laser.isOpen).toBe(false)
+            mockServer.stop(done)
+          })
+          wsClient.close()
+        }
+      })
+    })
+  })
+
+  describe('shared connection', () => {
+    const broadcastChannels: BroadcastChannelLike[] = []
+    const createBroadcastChannel = (): BroadcastChannelLike => {
+      const channel: BroadcastChannelLike = {
+        onmessage: null,
+        postMessage: (message: any) => {
+          broadcastChannels
+            .filter(other => other !== channel)
+            .forEach(other => setTimeout(() => other.onmessage!({ data: message } as any), 0))
+        },
+        close: () => {
+          broadcastChannels.splice(broadcastChannels.indexOf(channel), 1)
+        }
+      }
+      broadcastChannels.push(channel)
+      return channel
+    }
+
+    it('tabs share one websocket and a follower takes over when the leader closes', done => {
+      let connections = 0
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        connections++
+        socket.on('message', (msg: string) => {
+          socket.send(JSON.stringify({ status: 'echo', data: JSON.parse(msg) }))
+        })
+      })
+      const shared = { broadcastChannel: createBroadcastChannel, announceInterval: 20 }
+      const leader = getMockLabGuiWebsocket(url, false, { shared, reconnectInterval: 10 })
+      const echoes: string[] = []
+      leader.on('echo', data => echoes.push(`leader ${data.status}`))
+
+      leader.onopen = () => {
+        const follower = getMockLabGuiWebsocket(url, false, { shared, reconnectInterval: 10 })
+        follower.on('echo', data => {
+          echoes.push(`follower ${data.status}`)
+          if (data.status === 'takeover') {
+            expect(connections).toBe(2)
+            follower.close()
+            mockServer.stop(done)
+          }
+        })
+        let opened = 0
+        follower.onopen = () => {
+          opened++
+          if (opened === 1) {
+            expect(connections).toBe(1)
+            follower.send({ status: 'hello' })
+            setTimeout(() => {
+              expect(echoes).toEqual(['leader hello', 'follower hello'])
+              leader.close()
+            }, 20)
+          } else {
+            follower.send({ status: 'takeover' })
+          }
+        }
+      }
+    })
+  })
+
+  describe('state mirror', () => {
+    it('mirrors the control state and marks it stale while reconnecting', done => {
+      let connections = 0
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        connections++
+        socket.send(JSON.stringify({ status: 'control_status', data: { power: connections } }))
+        if (connections === 1) {
+          socket.send(
+            JSON.stringify({
+              status: 'control_patch',
+              data: [{ op: 'replace', path: '/power', value: 5 }]
+            })
+          )
+          setTimeout(() => socket.close(), 10)
+        }
+      })
+
+      const wsClient = getMockLabGuiWebsocket(url, false, { reconnectInterval: 10, mirror: {} })
+      const mirror = wsClient.mirror!
+      const powers: number[] = []
+      const staleness: boolean[] = []
+      mirror.addEventListener('stalechange', event => staleness.push(event.stale))
+      mirror.subscribe('/power', (power: number) => {
+        powers.push(power)
+        if (power === 2) {
+          expect(powers).toEqual([1, 5, 2])
+          expect(staleness).toEqual([false, true, false])
+          wsClient.close()
+          mockServer.stop(done)
+        }
+      })
+    })
+
+    it('is disabled by default', () => {
+      const wsClient = new LabGuiWebsocket(url, { automaticOpen: false })
+      expect(wsClient.mirror).toBeNull()
+    })
+  })
+
+  describe('codecs', () => {
+    it('binaryType is applied to the websocket', () => {
+      const wsClient = getMockLabGuiWebsocket(url, false, { binaryType: 'arraybuffer' })
+      expect((wsClient.wsInstance as WebSocket).binaryType).toBe('arraybuffer')
+      wsClient.close()
+    })
+
+    it('messages are encoded and decoded with the configured codec in order', done => {
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        socket.on('message', (frame: ArrayBuffer) => {
+          const msgObject = msgpackCodec.decode(frame) as SendData
+          socket.send(new Blob([frame]))
+          socket.send(msgpackCodec.encode({ status: 'after blob', data: msgObject.data }))
+        })
+      })
+
+      const received: object[] = []
+      const wsClient = getMockLabGuiWebsocket(url, false, { codec: msgpackCodec })
+      wsClient.onopen = () => {
+        wsClient.send({ status: 'trace', data: { values: [1, 2, 3] } })
+      }
+      wsClient.message_logic = (msgObject: object) => {
+        received.push(msgObject)
+        if (received.length === 2) {
+          expect(received).toEqual([
+            { status: 'trace', data: { values: [1, 2, 3] } },
+            { status: 'after blob', data: { values: [1, 2, 3] } }
+          ])
+          wsClient.close()
+          mockServer.close()
+          mockServer.stop(done)
+        }
+      }
+    })
+
+    it('errors while handling blob frames are dispatched as error events', done => {
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        socket.send(new Blob([new Uint8Array([0xc1])]))
+      })
+
+      const wsClient = getMockLabGuiWebsocket(url, false, { codec: msgpackCodec })
+      wsClient.onerror = event => {
+        const { error, context } = event as LabGuiErrorEvent
+        expect(error).toBeInstanceOf(ParseError)
+        expect(error.message).toBe("The recived message couldn't be decoded as MessagePack.")
+        expect(context.operation).toBe('receive')
+        wsClient.close()
+        mockServer.close()
+        mockServer.stop(done)
+      }
+    })
+  })
+
+  describe('outbox', () => {
+    beforeEach(() => {
+      msgStringArray = []
+    })
+
+    it('queues messages while connecting and flushes them in order on open', done => {
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        socket.on('message', (msg: string) => {
+          msgStringArray.push(msg)
+        })
+      })
+
+      const wsClient = getMockLabGuiWebsocket(url, false, { outbox: {} })
+      const sentPromises = [wsClient.send('first'), wsClient.send({ status: 'second' })]
+      expect(wsClient.queuedMessages).toBe(2)
+      wsClient.onopen = () => {
+        wsClient.send('third')
+      }
+
+      Promise.all(sentPromises)
+        .then(() => {
+          expect(wsClient.queuedMessages).toBe(0)
+          setTimeout(() => {
+            expect(msgStringArray).toEqual(['first', '{"status":"second"}', 'third'])
+            wsClient.close()
+            mockServer.close()
+            mockServer.stop(done)
+          }, 100)
+        })
+        .catch(() => 'just for linting')
+    })
+
+    it('rejects queued messages when the websocket gets closed', () => {
+      const wsClient = getMockLabGuiWebsocket(url, false, { outbox: {} })
+      const queued = wsClient.send('never sent')
+      wsClient.close()
+      return expect(queued).rejects.toThrow(
+        'The websocket was closed before the message could be sent.'
+      )
+    })
+
+    it('queued messages are kept while waiting to reconnect', () => {
+      jest.useFakeTimers()
+      const wsClient = getMockLabGuiWebsocket('ws://localhost:8081', false, {
+        outbox: {},
+        reconnectInterval: 100
+      })
+      jest.advanceTimersByTime(10)
+      expect(wsClient.wsInstance).toBeNull()
+      const queued = wsClient.send('queued')
+      expect(wsClient.queuedMessages).toBe(1)
+      expect(wsClient.close()).toBe(false)
+      jest.useRealTimers()
+      return expect(queued).rejects.toThrow(
+        'The websocket was closed before the message could be sent.'
+      )
+    })
+  })
+
+  describe('send policies', () => {
+    let server: MockLabServer
+    let now: number
+
+    // the injected clock is moved along with the fake timers
+    const timers: Timers = { ...defaultTimers, now: () => now }
+    const advance = (ms: number) => {
+      jest.advanceTimersByTime(0)
+      for (let i = 0; i < ms; i++) {
+        now++
+        jest.advanceTimersByTime(1)
+      }
+    }
+
+    const getPolicyClient = (): LabGuiWebsocket =>
+      new LabGuiWebsocket(url, {
+        websocketClass: server.websocketClass,
+        timers,
+        sendPolicy: { policies: { slider: { throttle: 100, coalesce: true } } }
+      })
+
+    beforeEach(() => {
+      server = new MockLabServer()
+      now = 1000
+      jest.useFakeTimers()
+    })
+
+    afterEach(() => {
+      // deliver the close events of the closed clients
+      jest.runOnlyPendingTimers()
+      jest.useRealTimers()
+    })
+
+    it('throttles and coalesces the messages of a status and counts the merged ones', async () => {
+      const wsClient = getPolicyClient()
+      advance(0)
+      wsClient.send({ status: 'slider', data: { value: 1 } })
+      wsClient.send({ status: 'slider', data: { value: 2 } })
+      const latest = wsClient.send({ status: 'slider', data: { value: 3 } })
+      wsClient.send({ status: 'laser', data: { on: true } })
+      expect(wsClient.queuedMessages).toBe(1)
+      advance(50)
+      expect(server.received).toEqual([
+        { status: 'slider', data: { value: 1 } },
+        { status: 'laser', data: { on: true } }
+      ])
+      advance(50)
+      await expect(latest).resolves.toBeUndefined()
+      expect(server.received[2]).toEqual({ status: 'slider', data: { value: 3 } })
+      expect(wsClient.getStats().merged).toEqual({ messages: 1, byStatus: { slider: 1 } })
+      wsClient.close()
+    })
+
+    it('drops the waiting messages when the connection closes', async () => {
+      const wsClient = getPolicyClient()
+      advance(0)
+      wsClient.send({ status: 'slider', data: { value: 1 } })
+      advance(0)
+      const waiting = wsClient.send({ status: 'slider', data: { value: 2 } })
+      wsClient.close()
+      advance(0)
+      await expect(waiting).rejects.toThrow(
+        'The websocket was closed before the message could be sent.'
+      )
+      expect(wsClient.queuedMessages).toBe(0)
+      expect(wsClient.getStats().dropped).toEqual({ messages: 1, byStatus: { slider: 1 } })
+      advance(200)
+      expect(server.received).toEqual([{ status: 'slider', data: { value: 1 } }])
+    })
+
+    it("pings don't wait for the rate limit", () => {
+      server.on('ping', () => ({ status: 'pong' }))
+      const wsClient = new LabGuiWebsocket(url, {
+        websocketClass: server.websocketClass,
+        timers,
+        heartbeat: { interval: 100, timeout: 50 },
+        sendPolicy: { maxMessagesPerSecond: 10 }
+      })
+      advance(0)
+      for (let value = 0; value < 30; value++) {
+        wsClient.send({ status: 'slider', data: { value } })
+      }
+      advance(300)
+      expect(wsClient.state).toBe('open')
+      expect(server.received.filter(message => message.status === 'ping').length).toBe(3)
+      expect(server.received.filter(message => message.status === 'slider').length).toBe(10)
+      wsClient.close()
+    })
+
+    it('applies the policies to the messages queued in the outbox', async () => {
+      const wsClient = new LabGuiWebsocket(url, {
+        websocketClass: server.websocketClass,
+        timers,
+        outbox: {},
+        sendPolicy: { policies: { slider: { throttle: 1000, coalesce: true } } }
+      })
+      const sent: Promise<void>[] = []
+      for (let value = 0; value < 20; value++) {
+        sent.push(wsClient.send({ status: 'slider', data: { value } }))
+      }
+      advance(0)
+      expect(server.received).toEqual([{ status: 'slider', data: { value: 0 } }])
+      expect(wsClient.queuedMessages).toBe(1)
+      advance(1000)
+      expect(server.received.map(message => message.data)).toEqual([{ value: 0 }, { value: 19 }])
+      await Promise.all(sent)
+      expect(wsClient.getStats().merged).toEqual({ messages: 18, byStatus: { slider: 18 } })
+      wsClient.close()
+    })
+
+    it('settles coalesced updates together with the update replacing them', async () => {
+      server.on('slider', message => ({ status: 'ack', id: message.id }))
+      const wsClient = new LabGuiWebsocket(url, {
+        websocketClass: server.websocketClass,
+        timers,
+        mirror: {},
+        sendPolicy: { policies: { slider: { throttle: 100, coalesce: true } } }
+      })
+      const events: string[] = []
+      wsClient.onrollback = event => events.push(event.type)
+      wsClient.onerror = event => events.push(event.type)
+      advance(0)
+      const updates = [0, 1, 2].map(value => wsClient.update('slider', { value }))
+      expect(wsClient.mirror!.get('/value')).toBe(2)
+      advance(100)
+      expect(server.received.map(message => message.data)).toEqual([{ value: 0 }, { value: 2 }])
+      const replies = await Promise.all(updates)
+      expect(replies[1]).toBe(replies[2])
+      expect(events).toEqual([])
+      expect(wsClient.mirror!.get('/value')).toBe(2)
+      wsClient.close()
+    })
+  })
+
+  describe('optimistic updates', () => {
+    const laserServer = (reply: (request: SendData) => object | null) => {
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        socket.send(JSON.stringify({ status: 'control_status', data: { power: 1 } }))
+        socket.on('message', (msg: string) => {
+          const answer = reply(JSON.parse(msg))
+          if (answer) {
+            socket.send(JSON.stringify(answer))
+          }
+        })
+      })
+      return mockServer
+    }
+
+    it('keeps updates confirmed by the server', done => {
+      const mockServer = laserServer(request => ({ status: 'ack', id: request.id }))
+      const wsClient = getMockLabGuiWebsocket(url, false, { mirror: {} })
+      wsClient.onrollback = () => done.fail('The update should not be rolled back')
+      wsClient.mirror!.subscribe('', state => {
+        if (state.power === 1) {
+          const confirmed = wsClient.update('control_status', { power: 3 })
+          expect(wsClient.mirror!.get('/power')).toBe(3)
+          confirmed
+            .then(reply => {
+              expect(reply.status).toBe('ack')
+              expect(wsClient.mirror!.get('/power')).toBe(3)
+              wsClient.close()
+              mockServer.stop(done)
+            })
+            .catch(() => 'just for linting')
+        }
+      })
+    })
+
+    it('rolls back updates rejected by the server', done => {
+      const mockServer = laserServer(request => ({
+        status: 'error',
+        id: request.id,
+        error: 'power out of range'
+      }))
+      const wsClient = getMockLabGuiWebsocket(url, false, { mirror: {} })
+      wsClient.on('control_status', () => {
+        wsClient.update('control_status', { power: 300 }).catch(() => 'handled by the event')
+      })
+      wsClient.addEventListener('rollback', event => {
+        expect(event.status).toBe('control_status')
+        expect(event.data).toEqual({ power: 300 })
+        expect(event.error.message).toMatch(/power out of range/)
+        expect(wsClient.mirror!.get('/power')).toBe(1)
+        wsClient.close()
+        mockServer.stop(done)
+      })
+    })
+
+    it('rolls back updates, which time out or are interrupted by a disconnect', done => {
+      const mockServer = laserServer(() => null)
+      const wsClient = getMockLabGuiWebsocket(url, false, { requestTimeout: 20, mirror: {} })
+      const errors: string[] = []
+      wsClient.onrollback = event => {
+        errors.push(event.error.message)
+        if (errors.length === 2) {
+          expect(errors[0]).toMatch(/timed out after 20ms/)
+          expect(errors[1]).toBe('The websocket was closed before a reply was received.')
+          expect(wsClient.mirror!.get('/power')).toBe(1)
+          mockServer.stop(done)
+        }
+      }
+      wsClient.onopen = () => {
+        wsClient.update('control_status', { power: 2 })
+        wsClient.update('control_status', { power: 3 }, { timeout: 1000 })
+        setTimeout(() => wsClient.close(), 40)
+      }
+    })
+
+    it('applies updates before the first snapshot and rolls back those it cannot apply', async () => {
+      const wsClient = getMockLabGuiWebsocket(url, false, { outbox: {}, mirror: {} })
+      const rollbacks: string[] = []
+      wsClient.onrollback = event => rollbacks.push(event.error.name)
+      wsClient.onerror = () => undefined
+      const queued = wsClient.update('control', { power: 1 }, { path: '/laser' })
+      expect(wsClient.mirror!.get('/laser/power')).toBe(1)
+      const unapplicable = wsClient.update('control', { x: 1 }, { path: '/laser/power' })
+      await expect(unapplicable).rejects.toBeInstanceOf(ProtocolError)
+      expect(rollbacks).toEqual(['ProtocolError'])
+      expect(wsClient.queuedMessages).toBe(1)
+      wsClient.close()
+      await expect(queued).rejects.toBeInstanceOf(NotConnectedError)
+      expect(wsClient.mirror!.get()).toEqual({})
+    })
+  })
+
+  describe('validation', () => {
+    it('invalid messages are reported instead of being handled or sent', done => {
+      const received: any[] = []
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        socket.on('message', (msg: string) => received.push(JSON.parse(msg)))
+        socket.send(JSON.stringify({ status: 'laser', data: { power: 'high' } }))
+        socket.send(JSON.stringify({ status: 'laser', data: { power: 2 } }))
+      })
+
+      const wsClient = getMockLabGuiWebsocket(url, false, {
+        validators: { laser: { type: 'object', properties: { power: { type: 'number' } } } }
+      })
+      wsClient.addValidator('laser', data => data.power <= 10, 'outbound')
+      const errors: ValidationErrorEvent[] = []
+      wsClient.onvalidationerror = event => errors.push(event)
+      wsClient.on('laser', data => {
+        expect(data.power).toBe(2)
+        wsClient.send({ status: 'laser', data: { power: 20 } }).catch((err: ValidationError) => {
+          expect(err.direction).toBe('outbound')
+          wsClient.send({ status: 'laser', data: { power: 5 } })
+          setTimeout(() => {
+            expect(received).toEqual([{ status: 'laser', data: { power: 5 } }])
+            expect(errors.map(event => event.error.direction)).toEqual(['inbound', 'outbound'])
+            expect(errors[0].frame).toBe('{"status":"laser","data":{"power":"high"}}')
+            expect(errors[0].error.errors).toEqual(['data.power should be of type number'])
+            expect(errors[1].message).toEqual({ status: 'laser', data: { power: 20 } })
+            wsClient.close()
+            mockServer.stop(done)
+          }, 20)
+        })
+      })
+    })
+  })
+
+  describe('request and reply', () => {
+    beforeEach(() => {
+      msgObjectArray = []
+    })
+
+    it('resolves requests with the correlated reply and passes other messages on', done => {
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        socket.on('message', (msg: string) => {
+          const request: SendData = JSON.parse(msg)
+          socket.send(JSON.stringify({ status: 'unrelated' }))
+          socket.send(JSON.stringify({ status: 'reply', id: request.id, data: request.data }))
+        })
+      })
+
+      const wsClient = getMockLabGuiWebsocket(url)
+      wsClient.message_logic = (msg: object) => {
+        msgObjectArray.push(msg)
+      }
+      wsClient.onopen = () => {
+        wsClient
+          .request('get_value', { channel: 1 })
+          .then(reply => {
+            expect(reply.status).toBe('reply')
+            expect(reply.data).toEqual({ channel: 1 })
+            setTimeout(() => {
+              expect(msgObjectArray).toEqual([{ status: 'unrelated' }])
+              wsClient.close()
+              mockServer.close()
+              mockServer.stop(done)
+            }, 50)
+          })
+          .catch(() => 'just for linting')
+      }
+    })
+
+    it('rejects requests which time out', done => {
+      const mockServer = new Server(url)
+      const wsClient = getMockLabGuiWebsocket(url, false, { requestTimeout: 20 })
+      wsClient.onopen = () => {
+        wsClient.request('no_reply').catch((err: Error) => {
+          expect(err.message).toMatch(/timed out after 20ms/)
+          wsClient.close()
+          mockServer.close()
+          mockServer.stop(done)
+        })
+      }
+    })
+
+    it('rejects pending requests when the websocket gets closed', done => {
+      const mockServer = new Server(url)
+      const wsClient = getMockLabGuiWebsocket(url)
+      wsClient.onopen = () => {
+        wsClient.request('no_reply', {}, { timeout: 1000 }).catch((err: Error) => {
+          expect(err.message).toBe('The websocket was closed before a reply was received.')
+          mockServer.close()
+          mockServer.stop(done)
+        })
+        wsClient.close()
+      }
+    })
+
+    it('rejects requests which could not be sent', () => {
+      const wsClient = getMockLabGuiWebsocket(url, false, { automaticOpen: false })
+      return expect(wsClient.request('not_connected')).rejects.toThrow(
+        'INVALID_STATE_ERR : Pausing to reconnect websocket'
+      )
+    })
+
+    it('rejects queued requests when the websocket gets closed', () => {
+      const wsClient = getMockLabGuiWebsocket(url, false, { outbox: {} })
+      const reply = wsClient.request('queued')
+      wsClient.close()
+      return expect(reply).rejects.toThrow('The websocket was closed before')
+    })
+
+    it('keeps queued requests waiting across failed connection attempts', done => {
+      let mockServer: Server | null = null
+      const wsClient = getMockLabGuiWebsocket(url, false, { outbox: {}, reconnectInterval: 10 })
+      wsClient.onerror = () => undefined
+      wsClient.onclose = () => {
+        if (mockServer === null) {
+          mockServer = new Server(url)
+          mockServer.on('connection', (socket: any) => {
+            socket.on('message', (msg: string) => {
+              const request: SendData = JSON.parse(msg)
+              socket.send(JSON.stringify({ status: 'reply', id: request.id }))
+            })
+          })
+        }
+      }
+      wsClient
+        .request('queued', {}, { timeout: 1000 })
+        .then(reply => {
+          expect(reply.status).toBe('reply')
+          wsClient.close()
+          const server = mockServer as Server
+          server.close()
+          server.stop(done)
+        })
+        .catch(() => 'just for linting')
+    })
+
+    it("doesn't send queued requests, which were rejected", done => {
+      const wsClient = getMockLabGuiWebsocket(url, false, {
+        automaticOpen: false,
+        outbox: {}
+      })
+      wsClient.request('expired', {}, { timeout: 10 }).catch((err: Error) => {
+        expect(err).toBeInstanceOf(TimeoutError)
+        expect(wsClient.queuedMessages).toBe(0)
+        const mockServer = new Server(url)
+        mockServer.on('connection', (socket: any) => {
+          socket.on('message', (msg: string) => msgObjectArray.push(JSON.parse(msg)))
+        })
+        wsClient.onopen = () => {
+          wsClient.send({ status: 'after' })
+          setTimeout(() => {
+            expect(msgObjectArray).toEqual([{ status: 'after' }])
+            wsClient.close()
+            mockServer.close()
+            mockServer.stop(done)
+          }, 50)
+        }
+        wsClient.open()
+      })
+    })
+  })
+
+  describe('status based message handlers', () => {
+    interface LabStatusMap {
+      control_status: { power: number }
+    }
+
+    it('messages are dispatched to the handlers registered with on', done => {
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        socket.send(JSON.stringify({ status: 'control_status', data: { power: 3 } }))
+        socket.send(JSON.stringify({ status: 'unknown_status' }))
+      })
+
+      const received: any[] = []
+      const wsClient = new LabGuiWebsocket<LabStatusMap>(url, { websocketClass: mockWebSocket })
+      wsClient.on('control_status', data => received.push(data.power))
+      wsClient.once('*', (data, message) => received.push(`once ${message.status}`))
+      wsClient.fallback((data, message) => received.push(`fallback ${message.status}`))
+      const logAll = (data: any, message: any) => received.push(`all ${message.status}`)
+      wsClient.on('*', logAll)
+      wsClient.off('*', logAll)
+
+      setTimeout(() => {
+        expect(received).toEqual([3, 'once control_status', 'fallback unknown_status'])
+        wsClient.close()
+        mockServer.close()
+        mockServer.stop(done)
+      }, 100)
+    })
+  })
+
+  describe('stats', () => {
+    it('collects metrics of connects and traffic', done => {
+      const status = JSON.stringify({ status: 'control_status', data: { power: 3 } })
+      const broken = '{"status": "broken"'
+      const laser = { status: 'laser', data: { power: 1 } }
+      const mockServer = new Server(url)
+      let connections = 0
+      mockServer.on('connection', (socket: any) => {
+        connections++
+        if (connections === 1) {
+          socket.send(status)
+          socket.send(broken)
+          socket.on('message', () => socket.close({ code: 4002, reason: 'Going away' }))
+        }
+      })
+
+      const wsClient = getMockLabGuiWebsocket(url, false, { reconnectInterval: 10 })
+      wsClient.on('control_status', () => wsClient.send(laser))
+      wsClient.onerror = () => undefined
+      wsClient.onopen = () => {
+        // the connection event of the server follows the open event
+        if (wsClient.getStats().connects < 2) {
+          return
+        }
+        const stats = wsClient.getStats()
+        expect(stats).toMatchObject({
+          connectAttempts: 2,
+          connects: 2,
+          disconnects: 1,
+          closeCodes: { '4002': 1 },
+          parseFailures: 1,
+          latency: null
+        })
+        expect(stats.inbound.byStatus).toEqual({
+          control_status: { messages: 1, bytes: status.length },
+          '': { messages: 1, bytes: broken.length }
+        })
+        const laserBytes = JSON.stringify(laser).length
+        expect(stats.outbound).toEqual({
+          messages: 1,
+          bytes: laserBytes,
+          byStatus: { laser: { messages: 1, bytes: laserBytes } }
+        })
+        expect(stats.connectedTime + stats.disconnectedTime).toBeGreaterThan(0)
+        wsClient.close()
+        mockServer.close()
+        mockServer.stop(done)
+      }
+    })
+
+    it('counts queued messages when they are sent', done => {
+      const mockServer = new Server(url)
+      const wsClient = getMockLabGuiWebsocket(url, false, { outbox: {} })
+      wsClient.send({ status: 'queued' })
+      wsClient.onopen = () => {
+        expect(wsClient.getStats().outbound.byStatus).toEqual({
+          queued: { messages: 1, bytes: JSON.stringify({ status: 'queued' }).length }
+        })
+        wsClient.close()
+        mockServer.close()
+        mockServer.stop(done)
+      }
+    })
+
+    it('dispatches the stats periodically', done => {
+      const mockServer = new Server(url)
+      const wsClient = getMockLabGuiWebsocket(url, false, { stats: { interval: 20 } })
+      wsClient.addEventListener('stats', event => {
+        expect(event.stats.connectAttempts).toBe(1)
+        wsClient.close()
+        mockServer.close()
+        mockServer.stop(done)
+      })
+    })
+  })
+
+  describe('logging', () => {
+    it('passes structured records with redacted payloads to the logger', done => {
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        socket.on('message', () => socket.close())
+      })
+
+      const records: LogRecord[] = []
+      const record = (logged: LogRecord) => records.push(logged)
+      const wsClient = getMockLabGuiWebsocket(url, false, {
+        reconnectInterval: 10,
+        logger: { debug: record, info: record, warn: record, error: record },
+        redactFields: ['password']
+      })
+      wsClient.onopen = () => {
+        wsClient.send({ status: 'login', data: { user: 'lab', password: 'secret' } })
+      }
+      wsClient.onreconnect = () => {
+        const sent = records.find(logged => logged.event === 'send') as LogRecord
+        expect(sent).toMatchObject({
+          level: 'debug',
+          url,
+          attempt: 0,
+          payloadSize: JSON.stringify({
+            status: 'login',
+            data: { user: 'lab', password: 'secret' }
+          }).length,
+          details: { message: { status: 'login', data: { user: 'lab', password: '[redacted]' } } }
+        })
+        expect(records.map(logged => `${logged.level} ${logged.event}`)).toEqual([
+          'info attempt-connect',
+          'info onopen',
+          'debug send',
+          'info onclose',
+          'info reconnect-scheduled'
+        ])
+        expect(records[4].attempt).toBe(1)
+        expect(records[4].details).toEqual({ delay: 10 })
+        wsClient.close()
+        mockServer.close()
+        mockServer.stop(done)
+      }
+    })
+
+    it('redacts the payloads of logged errors', () => {
+      const records: LogRecord[] = []
+      const record = (logged: LogRecord) => records.push(logged)
+      const wsClient = getMockLabGuiWebsocket(url, false, {
+        automaticOpen: false,
+        logger: { debug: record, info: record, warn: record, error: record },
+        redactFields: ['password']
+      })
+      wsClient.onerror = () => undefined
+      const login = { status: 'login', data: { password: 'hunter2' } }
+      expect(() => wsClient.send(login)).toThrow(NotConnectedError)
+      expect(records.find(logged => logged.event === 'send-error')).toMatchObject({
+        level: 'error',
+        details: {
+          error: 'INVALID_STATE_ERR : Pausing to reconnect websocket',
+          name: 'NotConnectedError',
+          code: 'NOT_CONNECTED',
+          payload: { status: 'login', data: { password: '[redacted]' } }
+        }
+      })
+    })
+  })
+
+  describe('structured errors', () => {
+    it('errors raised while receiving are dispatched with their context', done => {
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        socket.send('{"status": "broken"')
+        socket.send(JSON.stringify({ status: 'unhandled' }))
+        socket.send(JSON.stringify({ status: 'faulty' }))
+      })
+
+      const wsClient = getMockLabGuiWebsocket(url)
+      const handlerError = new Error('bug in the handler')
+      wsClient.on('faulty', () => {
+        throw handlerError
+      })
+      const errors: LabGuiErrorEvent[] = []
+      wsClient.addEventListener('error', event => {
+        errors.push(event as LabGuiErrorEvent)
+        if (errors.length === 3) {
+          expect(errors[0].error).toBeInstanceOf(ParseError)
+          expect((errors[0].error as ParseError).code).toBe('PARSE_ERROR')
+          expect((errors[0].error as ParseError).payload).toBe('{"status": "broken"')
+          expect(errors[0].context).toEqual({ operation: 'receive', url, state: 'open' })
+          expect(errors[1].error).toBeInstanceOf(ProtocolError)
+          expect((errors[1].error as ProtocolError).payload).toEqual({ status: 'unhandled' })
+          expect(errors[2].error).toBe(handlerError)
+          wsClient.close()
+          mockServer.close()
+          mockServer.stop(done)
+        }
+      })
+    })
+
+    it('errors of send are thrown and dispatched', () => {
+      const wsClient = getMockLabGuiWebsocket(url, false, { automaticOpen: false })
+      const errors: LabGuiErrorEvent[] = []
+      wsClient.onerror = event => errors.push(event as LabGuiErrorEvent)
+      expect(() => wsClient.send({ status: 'laser' })).toThrow(NotConnectedError)
+      expect(() => wsClient.send(1 as any)).toThrow(SerializationError)
+      expect(errors.map(({ error, context }) => [error.name, context.operation])).toEqual([
+        ['NotConnectedError', 'send'],
+        ['SerializationError', 'send']
+      ])
+      expect((errors[0].error as NotConnectedError).payload).toEqual({ status: 'laser' })
+    })
+
+    it('send throws a NotConnectedError while the websocket is connecting', () => {
+      const server = new MockLabServer()
+      const wsClient = new LabGuiWebsocket(url, { websocketClass: server.websocketClass })
+      wsClient.onerror = () => undefined
+      expect(wsClient.wsInstance).not.toBeNull()
+      expect(() => wsClient.send({ status: 'laser' })).toThrow(NotConnectedError)
+      expect(server.received).toEqual([])
+      wsClient.close()
+    })
+
+    it('errors of requests and queued messages are dispatched', async () => {
+      jest.useFakeTimers()
+      const wsClient = getMockLabGuiWebsocket(url, false, {
+        automaticOpen: false,
+        outbox: { ttl: 100 },
+        requestTimeout: 50
+      })
+      const errors: LabGuiErrorEvent[] = []
+      wsClient.onerror = event => errors.push(event as LabGuiErrorEvent)
+      const reply = wsClient.request('laser')
+      const queued = wsClient.send('queued')
+      jest.advanceTimersByTime(100)
+      jest.useRealTimers()
+      await expect(reply).rejects.toBeInstanceOf(TimeoutError)
+      await expect(queued).rejects.toBeInstanceOf(TimeoutError)
+      // the request expired in the outbox as well, but is only reported once
+      expect(errors.map(({ error, context }) => [error.message, context.operation])).toEqual([
+        [expect.stringContaining('timed out after 50ms'), 'request'],
+        ['The queued message expired before it could be sent.', 'send']
+      ])
+    })
+  })
+
+  describe('record and replay', () => {
+    it('a recorded session can be replayed without server', done => {
+      const mockServer = new Server(url)
+      mockServer.on('connection', (socket: any) => {
+        socket.send(JSON.stringify({ status: 'control_status', data: { power: 3 } }))
+        socket.on('message', () => socket.send(JSON.stringify({ status: 'laser', data: 'on' })))
+      })
+
+      const recorder = new Recorder()
+      const recorded: any[] = []
+      const wsClient = getMockLabGuiWebsocket(url, false, { recorder })
+      wsClient.on('control_status', data => {
+        recorded.push(data)
+        wsClient.send({ status: 'laser', data: { on: true } })
+      })
+      wsClient.on('laser', data => {
+        recorded.push(data)
+        wsClient.close()
+        mockServer.close()
+        mockServer.stop(replay)
+      })
+
+      const replay = () => {
+        expect(recorder.entries.map(entry => entry.type)).toEqual([
+          'connect',
+          'open',
+          'in',
+          'out',
+          'in',
+          'close'
+        ])
+        const replayed: any[] = []
+        const replayClient = new LabGuiWebsocket(url, {
+          websocketClass: createReplayWebSocket(recorder.toNDJSON(), { speed: 10 })
+        })
+        replayClient.on('*', data => replayed.push(data))
+        replayClient.onclose = () => {
+          expect(replayed).toEqual(recorded)
+          replayClient.close()
+          done()
+        }
+      }
+    })
+  })
+
+  describe('Wanted exceptions and dev helper functions', () => {
+    const wsClient = getMockLabGuiWebsocket(url, false, {
+      automaticOpen: false
+    })
+
+    it('get_message_object of not a JSON parsable string msg.data', () => {
+      const exception = () => {
+        const falsyMsgEvent = {
+          data: '{"missing": "curly bracet to parse"'
+        } as MessageEvent
+        wsClient.get_message_object(falsyMsgEvent)
+      }
+
+      expect(exception).toThrow(new TypeError("The recived message couldn't be parsed to JSON."))
+    })
+
+    it('get_message_object of not string msg.data', () => {
+      const exception = () => {
+        const falsyMsgEvent = {
+          data: 1
+        } as MessageEvent
+        wsClient.get_message_object(falsyMsgEvent)
+      }
+
+      expect(exception).toThrow(new TypeError("The recived message wasn't a string."))
+    })
+
+    it('send wrong formated data', () => {
+      const exception = () => {
+        wsClient.send(1 as any)
+      }
+      const errorMsg =
+        'The data to be sent need to be a string or an object of form ' +
+        '{"status": "control_status", "data":{...ui_settings} }'
+
+      expect(exception).toThrow(new TypeError(errorMsg))
+    })
+
+    it('send before client is connect', () => {
+      const exception = () => {
+        wsClient.send('')
+      }
+
+      expect(exception).toThrow(new Error('INVALID_STATE_ERR : Pausing to reconnect websocket'))
+    })
+
+    it("message_logic wasn't overwritten", () => {
+      const exception = () => {
+        wsClient.message_logic({})
+      }
+      const errorMsg =
+        'The method `message_logic` should be overwritten and used to ' +
+        'do all the business logic on recieved messages objects'
+      expect(exception).toThrow(errorMsg)
+    })
+
+    it("message_logic wasn't overwritten", () => {
+      expect(wsClient.close()).toBe(false)
+    })
+
+    it('logging to the console if debug is activated', () => {
+      const debugClient = getMockLabGuiWebsocket(url, true, { automaticOpen: false })
+      const spy = jest.spyOn(global.console, 'debug').mockImplementation()
+      const message = new MessageEvent('test', { data: '{ "test": 1 }' })
+      debugClient.get_message_object(message)
+      expect(spy).toHaveBeenCalledWith(
+        'LabGuiWebsocket',
+        'decoded',
+        url,
+        expect.objectContaining({ details: { message: { test: 1 } }, payloadSize: 13 })
+      )
       spy.mockRestore()
     })
   })
@@ -0,0 +1,62 @@
+import { consoleLogger, frameSize, LogRecord, redact, silentLogger } from '../src/logger'
+
+describe('Testing logger', () => {
+  const record = (level: LogRecord['level']): LogRecord => ({
+    level,
+    event: 'attempt-connect',
+    url: 'ws://lab',
+    attempt: 0,
+    timestamp: 1000
+  })
+
+  it('consoleLogger writes records of the minimal level and above', () => {
+    const target = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+    const logger = consoleLogger('warn', target)
+    logger.debug(record('debug'))
+    logger.info(record('info'))
+    logger.warn(record('warn'))
+    logger.error(record('error'))
+    expect(target.debug).not.toHaveBeenCalled()
+    expect(target.info).not.toHaveBeenCalled()
+    expect(target.warn).toHaveBeenCalledWith(
+      'LabGuiWebsocket',
+      'attempt-connect',
+      'ws://lab',
+      record('warn')
+    )
+    expect(target.error).toHaveBeenCalledTimes(1)
+  })
+
+  it('consoleLogger writes to the global console by default', () => {
+    const spy = jest.spyOn(global.console, 'info').mockImplementation()
+    consoleLogger().info(record('info'))
+    expect(spy).toHaveBeenCalledTimes(1)
+    spy.mockRestore()
+  })
+
+  it('silentLogger drops all records', () => {
+    expect(() => silentLogger.error(record('error'))).not.toThrow()
+  })
+
+  it('redact replaces the values of the fields at any depth', () => {
+    const error = new Error('failed')
+    const message = {
+      status: 'login',
+      data: { password: 'secret', users: [{ name: 'lab', token: { value: 1 } }], error }
+    }
+    expect(redact(message, ['password', 'token'])).toEqual({
+      status: 'login',
+      data: { password: '[redacted]', users: [{ name: 'lab', token: '[redacted]' }], error }
+    })
+    expect(message.data.password).toBe('secret')
+    expect(redact(message, [])).toBe(message)
+    expect(redact('text', ['password'])).toBe('text')
+  })
+
+  it('frameSize returns the length of text and binary frames', () => {
+    expect(frameSize('{"a":1}')).toBe(7)
+    expect(frameSize(new ArrayBuffer(3))).toBe(3)
+    expect(frameSize(new Blob([new Uint8Array([1, 2])]))).toBe(2)
+    expect(frameSize(undefined)).toBeUndefined()
+  })
+})
@@ -0,0 +1,203 @@
+import { msgpackCodec } from '../src/codecs'
+import { LabGuiWebsocket } from '../src/lab-gui-websocket'
+import { MockLabServer } from '../src/mock-lab-server'
+import { ReadyState, WebSocketLike } from '../src/websocket-like'
+
+describe('Testing MockLabServer', () => {
+  const url: string = 'ws://lab'
+
+  const listen = (socket: WebSocketLike): any[] => {
+    const events: any[] = []
+    socket.onopen = () => events.push('open')
+    socket.onmessage = event => events.push(event.data)
+    socket.onerror = () => events.push('error')
+    socket.onclose = event => events.push(`close ${event.code} ${event.reason}`)
+    return events
+  }
+
+  describe('with LabGuiWebsocket', () => {
+    it('answers messages with the handler of their status and records them', done => {
+      const server = new MockLabServer()
+      server
+        .onConnection(() => ({ status: 'control_status', data: { power: 3 } }))
+        .on('laser', message => [
+          { status: 'laser', data: message.data },
+          { status: 'control_status', data: { power: 5 } }
+        ])
+        .on('*', () => ({ status: 'unknown' }))
+
+      const received: any[] = []
+      const wsClient = new LabGuiWebsocket(url, { websocketClass: server.websocketClass })
+      wsClient.on('*', (data, message) => {
+        received.push(message)
+        if (received.length === 1) {
+          wsClient.send({ status: 'laser', data: { on: true } })
+          wsClient.send({ status: 'shutter' })
+        }
+        if (received.length === 4) {
+          expect(received).toEqual([
+            { status: 'control_status', data: { power: 3 } },
+            { status: 'laser', data: { on: true } },
+            { status: 'control_status', data: { power: 5 } },
+            { status: 'unknown' }
+          ])
+          expect(server.received).toEqual([
+            { status: 'laser', data: { on: true } },
+            { status: 'shutter' }
+          ])
+          expect(server.connections.map(connection => connection.url)).toEqual([url])
+          wsClient.close()
+          done()
+        }
+      })
+    })
+
+    it('refuses the given number of connection attempts', done => {
+      const server = new MockLabServer()
+      server.refuse(2, 4000, 'Starting up')
+      const wsClient = new LabGuiWebsocket(url, {
+        websocketClass: server.websocketClass,
+        reconnectInterval: 10
+      })
+      wsClient.onopen = () => {
+        expect(server.connectionAttempts).toBe(3)
+        expect(wsClient.getStats().closeCodes).toEqual({ '4000': 2 })
+        wsClient.close()
+        done()
+      }
+    })
+
+    it('forcefully disconnects the clients with the given close code', done => {
+      const server = new MockLabServer()
+      const wsClient = new LabGuiWebsocket(url, {
+        websocketClass: server.websocketClass,
+        reconnectInterval: 10
+      })
+      wsClient.onopen = () => {
+        if (wsClient.getStats().connects === 1) {
+          server.disconnect(4002, 'Going away')
+          return
+        }
+        expect(wsClient.getStats().closeCodes).toEqual({ '4002': 1 })
+        wsClient.close()
+        done()
+      }
+    })
+  })
+
+  describe('transport', () => {
+    beforeEach(() => {
+      jest.useFakeTimers()
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('delays every frame and event by the latency', () => {
+      const server = new MockLabServer({ latency: 50 })
+      server.on('ping', () => ({ status: 'pong' }))
+      const socket = new server.websocketClass(url, 'v1')
+      const events = listen(socket)
+      expect(() => socket.send('{"status":"ping"}')).toThrow('Still in CONNECTING state.')
+      jest.advanceTimersByTime(49)
+      expect(events).toEqual([])
+      jest.advanceTimersByTime(1)
+      expect(events).toEqual(['open'])
+      expect(server.connections[0].protocols).toEqual(['v1'])
+
+      socket.send('{"status":"ping"}')
+      jest.advanceTimersByTime(99)
+      expect(events).toEqual(['open'])
+      jest.advanceTimersByTime(1)
+      expect(events).toEqual(['open', '{"status":"pong"}'])
+
+      socket.close()
+      expect(socket.readyState).toBe(ReadyState.CLOSING)
+      expect(server.connections).toEqual([])
+      socket.send('{"status":"ping"}')
+      socket.close()
+      jest.advanceTimersByTime(50)
+      expect(events).toEqual(['open', '{"status":"pong"}', 'close 1000 '])
+      expect(server.received).toEqual([{ status: 'ping' }])
+      server.clearReceived()
+      expect(server.received).toEqual([])
+    })
+
+    it('sends raw frames, broadcasts and ignores frames it can not decode', () => {
+      const server = new MockLabServer()
+      const handled: string[] = []
+      server.on('*', message => {
+        handled.push(message.status)
+      })
+      const first = listen(new server.websocketClass(url))
+      const second = new server.websocketClass(url)
+      const secondEvents = listen(second)
+      jest.advanceTimersByTime(0)
+      second.send('{"status": "broken"')
+      second.send('{"status":"handled"}')
+      server.broadcast('{"status": "broken"')
+      server.connections[0].send([{ status: 'first' }])
+      server.connections[0].send(undefined)
+      jest.advanceTimersByTime(0)
+      expect(handled).toEqual(['handled'])
+      expect(first).toEqual(['open', '{"status": "broken"', '{"status":"first"}'])
+      expect(secondEvents).toEqual(['open', '{"status": "broken"'])
+    })
+
+    it('encodes with the codec and delivers binary frames depending on the binaryType', () => {
+      const server = new MockLabServer({ codec: msgpackCodec })
+      server.onConnection(() => ({ status: 'binary' }))
+      const blobSocket = new server.websocketClass(url)
+      const blobEvents = listen(blobSocket)
+      const bufferSocket = new server.websocketClass(url)
+      bufferSocket.binaryType = 'arraybuffer'
+      const bufferEvents = listen(bufferSocket)
+      jest.advanceTimersByTime(0)
+      expect(blobEvents[1]).toBeInstanceOf(Blob)
+      expect(msgpackCodec.decode(bufferEvents[1])).toEqual({ status: 'binary' })
+      bufferSocket.send(msgpackCodec.encode({ status: 'back' }) as ArrayBuffer)
+      jest.advanceTimersByTime(0)
+      expect(server.received).toEqual([{ status: 'back' }])
+    })
+
+    it('closes connections from the server side', () => {
+      const server = new MockLabServer()
+      const events = listen(new server.websocketClass(url))
+      const crashed = listen(new server.websocketClass(url))
+      const closing = new server.websocketClass(url)
+      const closingEvents = listen(closing)
+      jest.advanceTimersByTime(0)
+      server.connections[2].send({ status: 'not received' })
+      closing.close()
+      const connection = server.connections[0]
+      connection.close(4001)
+      connection.close()
+      connection.send({ status: 'too late' })
+      expect(connection.isOpen).toBe(false)
+      server.disconnect()
+      jest.advanceTimersByTime(0)
+      expect(events).toEqual(['open', 'close 4001 '])
+      expect(crashed).toEqual(['open', 'error', 'close 1006 '])
+      expect(closingEvents).toEqual(['open', 'close 1000 '])
+    })
+
+    it('drops connections closed by the client before they opened', () => {
+      const server = new MockLabServer()
+      server.refuse(2)
+      const refused = listen(new server.websocketClass(url))
+      const closedRefused = new server.websocketClass(url)
+      const closedRefusedEvents = listen(closedRefused)
+      closedRefused.close(4000, 'Cancelled')
+      const socket = new server.websocketClass(url)
+      const events = listen(socket)
+      socket.close(4000, 'Cancelled')
+      jest.advanceTimersByTime(0)
+      expect(refused).toEqual(['error', 'close 1006 '])
+      expect(closedRefusedEvents).toEqual(['error', 'close 1006 '])
+      expect(events).toEqual(['close 4000 Cancelled'])
+      expect(server.connections).toEqual([])
+      expect(server.connectionAttempts).toBe(3)
+    })
+  })
+})
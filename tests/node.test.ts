@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+
+import { WebSocket as mockWebSocket, Server } from 'mock-socket'
+import {
+  defaultEnvironmentSignals,
+  LabGuiWebsocket,
+  msgpackCodec,
+  ReadyState,
+  Timers
+} from '../src/lab-gui-websocket'
+import { MockLabServer } from '../src/testing'
+
+describe('Testing LabGuiWebsocket in node', () => {
+  const url: string = 'ws://localhost:8090'
+
+  it('there is no global WebSocket in this environment', () => {
+    expect(typeof (global as any).WebSocket).toBe('undefined')
+  })
+
+  it('throws a helpful error without websocketClass', () => {
+    expect(() => new LabGuiWebsocket(url)).toThrow(
+      'There is no global WebSocket in this environment, ' +
+        "pass an implementation like the one of the 'ws' package as websocketClass."
+    )
+  })
+
+  it('connects, sends and receives with a supplied implementation', done => {
+    const mockServer = new Server(url)
+    mockServer.on('connection', (socket: any) => {
+      socket.on('message', (msg: string) => {
+        socket.send(msg)
+      })
+    })
+
+    const wsClient = new LabGuiWebsocket(url, { websocketClass: mockWebSocket })
+    expect(wsClient.connectionState).toBe(ReadyState.CONNECTING)
+    wsClient.onopen = () => {
+      expect(wsClient.connectionState).toBe(ReadyState.OPEN)
+      wsClient.send({ status: 'echo', data: { value: 1 } })
+    }
+    wsClient.on('echo', data => {
+      expect(data).toEqual({ value: 1 })
+      wsClient.close()
+      mockServer.close()
+      mockServer.stop(done)
+    })
+  })
+
+  it('works with the mock lab server', done => {
+    const server = new MockLabServer({ codec: msgpackCodec })
+    server.on('echo', message => message)
+    const wsClient = new LabGuiWebsocket(url, {
+      websocketClass: server.websocketClass,
+      codec: msgpackCodec,
+      binaryType: 'arraybuffer'
+    })
+    wsClient.onopen = () => wsClient.send({ status: 'echo', data: { value: 2 } })
+    wsClient.on('echo', data => {
+      expect(data).toEqual({ value: 2 })
+      expect(server.received).toEqual([{ status: 'echo', data: { value: 2 } }])
+      wsClient.close()
+      done()
+    })
+  })
+
+  it('the default environment is always online and visible', () => {
+    expect(defaultEnvironmentSignals.isOnline()).toBe(true)
+    expect(defaultEnvironmentSignals.isVisible()).toBe(true)
+    defaultEnvironmentSignals.subscribe(() => undefined)()
+  })
+
+  it('uses the injected timers', () => {
+    const scheduled: number[] = []
+    const timers: Timers = {
+      setTimeout: (callback: () => void, ms: number) => {
+        scheduled.push(ms)
+        return scheduled.length
+      },
+      clearTimeout: () => undefined,
+      now: () => 0
+    }
+    const wsClient = new LabGuiWebsocket(url, {
+      websocketClass: mockWebSocket,
+      timers,
+      timeoutInterval: 1234,
+      requestTimeout: 5678
+    })
+    wsClient.request('not_connected').catch(() => 'just for linting')
+    expect(scheduled).toEqual([1234, 5678])
+    wsClient.close()
+  })
+})
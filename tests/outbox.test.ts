@@ -0,0 +1,110 @@
+import { Outbox } from '../src/outbox'
+
+describe('Testing Outbox', () => {
+  let sent: string[]
+  const send = (data: string) => {
+    sent.push(data)
+  }
+
+  beforeEach(() => {
+    sent = []
+  })
+
+  it('flushes queued data in order and resolves the promises', async () => {
+    const outbox = new Outbox<string>()
+    const first = outbox.push('first')
+    const second = outbox.push('second')
+    expect(outbox.size).toBe(2)
+    outbox.flush(send)
+    await expect(first).resolves.toBeUndefined()
+    await expect(second).resolves.toBeUndefined()
+    expect(sent).toEqual(['first', 'second'])
+    expect(outbox.size).toBe(0)
+  })
+
+  it('settles the promises with the ones returned by the send function', async () => {
+    const outbox = new Outbox<string>()
+    const sent = outbox.push('sent')
+    const failed = outbox.push('failed')
+    outbox.flush(data =>
+      data === 'sent' ? Promise.resolve() : Promise.reject(new Error('send failed'))
+    )
+    await expect(sent).resolves.toBeUndefined()
+    await expect(failed).rejects.toThrow('send failed')
+  })
+
+  it('rejects the promise of data which failed to be sent', async () => {
+    const outbox = new Outbox<string>()
+    const failing = outbox.push('failing')
+    outbox.flush(() => {
+      throw new Error('send failed')
+    })
+    await expect(failing).rejects.toThrow('send failed')
+  })
+
+  it("overflow 'drop-oldest' drops the oldest queued data", async () => {
+    const outbox = new Outbox<string>({ maxSize: 2 })
+    const first = outbox.push('first')
+    outbox.push('second')
+    outbox.push('third')
+    await expect(first).rejects.toThrow('The outbox is full, the message was dropped.')
+    outbox.flush(send)
+    expect(sent).toEqual(['second', 'third'])
+  })
+
+  it("overflow 'drop-newest' drops the data which should be queued", async () => {
+    const outbox = new Outbox<string>({ maxSize: 2, overflow: 'drop-newest' })
+    outbox.push('first')
+    outbox.push('second')
+    const third = outbox.push('third')
+    await expect(third).rejects.toThrow('The outbox is full, the message was dropped.')
+    outbox.flush(send)
+    expect(sent).toEqual(['first', 'second'])
+  })
+
+  it("overflow 'reject' throws when the outbox is full", () => {
+    const outbox = new Outbox<string>({ maxSize: 1, overflow: 'reject' })
+    outbox.push('first')
+    expect(() => outbox.push('second')).toThrow(
+      new Error('The outbox is full, the message was rejected.')
+    )
+    expect(outbox.size).toBe(1)
+  })
+
+  it('queued data expires after ttl', async () => {
+    jest.useFakeTimers()
+    const outbox = new Outbox<string>({ ttl: 100 })
+    const expiring = outbox.push('expiring')
+    jest.advanceTimersByTime(50)
+    const fresh = outbox.push('fresh')
+    jest.advanceTimersByTime(50)
+    expect(outbox.size).toBe(1)
+    outbox.flush(send)
+    jest.useRealTimers()
+    await expect(expiring).rejects.toThrow('The queued message expired before it could be sent.')
+    await expect(expiring).rejects.toMatchObject({ code: 'TIMEOUT', payload: 'expiring' })
+    await expect(fresh).resolves.toBeUndefined()
+    expect(sent).toEqual(['fresh'])
+  })
+
+  it('clear rejects all queued data', async () => {
+    const outbox = new Outbox<string>({ ttl: 100 })
+    const queued = outbox.push('queued')
+    outbox.clear('cleared')
+    await expect(queued).rejects.toThrow('cleared')
+    await expect(queued).rejects.toMatchObject({ code: 'NOT_CONNECTED', payload: 'queued' })
+    expect(outbox.size).toBe(0)
+  })
+
+  it('discard removes the matching queued data', async () => {
+    const outbox = new Outbox<string>()
+    const kept = outbox.push('kept')
+    const discarded = outbox.push('discarded')
+    outbox.discard(data => data === 'discarded', 'discarded')
+    await expect(discarded).rejects.toMatchObject({ code: 'NOT_CONNECTED', payload: 'discarded' })
+    const sent: string[] = []
+    outbox.flush(data => sent.push(data))
+    await expect(kept).resolves.toBeUndefined()
+    expect(sent).toEqual(['kept'])
+  })
+})
@@ -0,0 +1,135 @@
+import { decodeFrame, encodeFrame, parseRecording, Recorder } from '../src/recorder'
+import { ReadyState, WebSocketLike } from '../src/websocket-like'
+
+class FakeWebSocket implements WebSocketLike {
+  static instances: FakeWebSocket[] = []
+  public binaryType: string = 'blob'
+  public readyState: number = ReadyState.CONNECTING
+  public onopen: ((event: any) => any) | null = null
+  public onclose: ((event: any) => any) | null = null
+  public onmessage: ((event: any) => any) | null = null
+  public onerror: ((event: any) => any) | null = null
+  public sent: (string | ArrayBuffer)[] = []
+  public closedWith: any[] = []
+
+  constructor(public url: string, public protocols?: string | string[]) {
+    FakeWebSocket.instances.push(this)
+  }
+
+  send(data: string | ArrayBuffer): void {
+    this.sent.push(data)
+  }
+
+  close(code?: number, reason?: string): void {
+    this.closedWith = [code, reason]
+  }
+}
+
+describe('Testing Recorder', () => {
+  let spyNow: jest.SpyInstance
+
+  beforeEach(() => {
+    FakeWebSocket.instances = []
+    spyNow = jest.spyOn(Date, 'now').mockReturnValue(1000)
+  })
+
+  afterEach(() => {
+    spyNow.mockRestore()
+  })
+
+  it('records the frames and events of wrapped websockets', () => {
+    const recorder = new Recorder()
+    const RecordingWebSocket = recorder.wrap(FakeWebSocket)
+    const socket = new RecordingWebSocket('ws://lab', ['v1'])
+    const inner = FakeWebSocket.instances[0]
+    expect(inner.url).toBe('ws://lab')
+    expect(inner.protocols).toEqual(['v1'])
+    const events: string[] = []
+    socket.onopen = () => events.push('open')
+    socket.onmessage = event => events.push(`message ${event.data}`)
+    socket.onerror = () => events.push('error')
+    socket.onclose = event => events.push(`close ${event.code}`)
+    socket.binaryType = 'arraybuffer'
+    expect(inner.binaryType).toBe('arraybuffer')
+    expect(socket.binaryType).toBe('arraybuffer')
+
+    spyNow.mockReturnValue(1010)
+    inner.readyState = ReadyState.OPEN
+    inner.onopen!({ type: 'open' })
+    expect(socket.readyState).toBe(ReadyState.OPEN)
+    spyNow.mockReturnValue(1020)
+    socket.send('{"status":"laser"}')
+    inner.onmessage!({ type: 'message', data: new Uint8Array([1, 2, 255]).buffer })
+    inner.onerror!({ type: 'error' })
+    socket.close(1000, 'done')
+    inner.onclose!({ type: 'close', code: 1000, reason: 'done' })
+
+    expect(inner.sent).toEqual(['{"status":"laser"}'])
+    expect(inner.closedWith).toEqual([1000, 'done'])
+    expect(events).toEqual(['open', 'message [object ArrayBuffer]', 'error', 'close 1000'])
+    expect(recorder.entries).toEqual([
+      { type: 'connect', time: 0, url: 'ws://lab' },
+      { type: 'open', time: 10 },
+      { type: 'out', time: 20, data: '{"status":"laser"}', binary: false },
+      { type: 'in', time: 20, data: 'AQL/', binary: true },
+      { type: 'error', time: 20 },
+      { type: 'close', time: 20, code: 1000, reason: 'done' }
+    ])
+  })
+
+  it('works without handlers on the wrapping websocket', () => {
+    const recorder = new Recorder()
+    const RecordingWebSocket = recorder.wrap(FakeWebSocket)
+    const socket = new RecordingWebSocket('ws://lab')
+    FakeWebSocket.instances[0].onopen!({ type: 'open' })
+    expect(socket.onopen).toBeNull()
+    expect(recorder.entries.map(entry => entry.type)).toEqual(['connect', 'open'])
+  })
+
+  it('fills in the data of Blob frames after reading them', async () => {
+    const recorder = new Recorder()
+    recorder.recordFrame('in', new Blob([new Uint8Array([104, 105])]))
+    recorder.recordFrame('in', 'after')
+    expect(recorder.entries[0]).toEqual({ type: 'in', time: 0, data: '', binary: true })
+    while (recorder.entries[0].data === '') {
+      await new Promise(resolve => setTimeout(resolve, 5))
+    }
+    expect(recorder.entries.map(entry => entry.data)).toEqual(['aGk=', 'after'])
+  })
+
+  it('keeps at most maxEntries entries', () => {
+    const recorder = new Recorder({ maxEntries: 2 })
+    recorder.record({ type: 'connect', url: 'ws://lab' })
+    recorder.record({ type: 'open' })
+    recorder.record({ type: 'error' })
+    expect(recorder.entries.map(entry => entry.type)).toEqual(['open', 'error'])
+  })
+
+  it('exports the recording as NDJSON, which can be parsed again', () => {
+    const recorder = new Recorder()
+    recorder.record({ type: 'connect', url: 'ws://lab' })
+    recorder.recordFrame('in', '{"status":"control_status"}')
+    const ndjson = recorder.toNDJSON()
+    expect(ndjson.split('\n').length).toBe(2)
+    expect(parseRecording(`${ndjson}\n\n`)).toEqual(recorder.entries)
+
+    spyNow.mockReturnValue(2000)
+    recorder.clear()
+    expect(recorder.toNDJSON()).toBe('')
+    expect(recorder.record({ type: 'open' }).time).toBe(0)
+  })
+
+  it('encodes binary frames as base64', () => {
+    for (let length = 0; length < 6; length++) {
+      const bytes = new Uint8Array(length).map((byte, index) => index * 100)
+      const encoded = encodeFrame(bytes.buffer)
+      expect(encoded.binary).toBe(true)
+      expect(
+        new Uint8Array(decodeFrame({ type: 'in', time: 0, ...encoded }) as ArrayBuffer)
+      ).toEqual(bytes)
+    }
+    expect(encodeFrame(new Uint8Array([0, 16, 131, 16, 81, 135]).buffer).data).toBe('ABCDEFGH')
+    expect(decodeFrame({ type: 'in', time: 0, data: 'text' })).toBe('text')
+    expect(decodeFrame({ type: 'in', time: 0 })).toBe('')
+  })
+})
@@ -0,0 +1,114 @@
+import { RecordedEvent } from '../src/recorder'
+import { createReplayWebSocket } from '../src/replay'
+import { ReadyState, WebSocketLike } from '../src/websocket-like'
+
+describe('Testing createReplayWebSocket', () => {
+  const recording: RecordedEvent[] = [
+    { type: 'open', time: 0 },
+    { type: 'connect', time: 100, url: 'ws://lab' },
+    { type: 'open', time: 110 },
+    { type: 'out', time: 120, data: 'ignored', binary: false },
+    { type: 'in', time: 200, data: 'first', binary: false },
+    { type: 'in', time: 300, data: 'AQI=', binary: true },
+    { type: 'error', time: 350 },
+    { type: 'close', time: 400, code: 4002, reason: 'Going away' },
+    { type: 'connect', time: 500, url: 'ws://lab' },
+    { type: 'close', time: 510 }
+  ]
+
+  const listen = (socket: WebSocketLike): string[] => {
+    const events: string[] = []
+    socket.onopen = () => events.push('open')
+    socket.onmessage = event =>
+      events.push(
+        typeof event.data === 'string'
+          ? `message ${event.data}`
+          : `message ${event.data.constructor.name}`
+      )
+    socket.onerror = () => events.push('error')
+    socket.onclose = event => events.push(`close ${event.code} ${event.reason}`)
+    return events
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('plays the recorded connections back with the original timing', () => {
+    const ReplayWebSocket = createReplayWebSocket(recording)
+    const socket = new ReplayWebSocket('ws://replay')
+    socket.binaryType = 'arraybuffer'
+    socket.send('not recorded')
+    const events = listen(socket)
+    jest.advanceTimersByTime(9)
+    expect(socket.readyState).toBe(ReadyState.CONNECTING)
+    jest.advanceTimersByTime(1)
+    expect(socket.readyState).toBe(ReadyState.OPEN)
+    jest.advanceTimersByTime(100)
+    expect(events).toEqual(['open', 'message first'])
+    jest.advanceTimersByTime(200)
+    expect(events).toEqual([
+      'open',
+      'message first',
+      'message ArrayBuffer',
+      'error',
+      'close 4002 Going away'
+    ])
+    expect(socket.readyState).toBe(ReadyState.CLOSED)
+
+    // a reconnect gets the next connection, whose close without code means a failed attempt
+    const reconnect = new ReplayWebSocket('ws://replay')
+    const reconnectEvents = listen(reconnect)
+    jest.advanceTimersByTime(10)
+    expect(reconnectEvents).toEqual(['close 1006 '])
+
+    const afterEnd = new ReplayWebSocket('ws://replay')
+    const afterEndEvents = listen(afterEnd)
+    jest.advanceTimersByTime(0)
+    expect(afterEndEvents).toEqual(['close 1006 The recording has ended.'])
+  })
+
+  it('scales the timing by the speed and loops if requested', () => {
+    const ReplayWebSocket = createReplayWebSocket(
+      recording.map(entry => JSON.stringify(entry)).join('\n'),
+      { speed: 10, loop: true }
+    )
+    const first = new ReplayWebSocket('ws://replay')
+    const events = listen(first)
+    jest.advanceTimersByTime(20)
+    expect(events).toEqual(['open', 'message first', 'message Blob'])
+    jest.advanceTimersByTime(10)
+    const second = new ReplayWebSocket('ws://replay')
+    const looped = new ReplayWebSocket('ws://replay')
+    const loopedEvents = listen(looped)
+    jest.advanceTimersByTime(1)
+    expect(second.readyState).toBe(ReadyState.CLOSED)
+    expect(loopedEvents).toEqual(['open'])
+  })
+
+  it('stops the playback, when the websocket gets closed', () => {
+    const ReplayWebSocket = createReplayWebSocket(recording)
+    const socket = new ReplayWebSocket('ws://replay')
+    const events = listen(socket)
+    jest.advanceTimersByTime(10)
+    socket.close()
+    socket.close(4000)
+    expect(socket.readyState).toBe(ReadyState.CLOSING)
+    jest.advanceTimersByTime(1000)
+    expect(events).toEqual(['open', 'close 1000 '])
+  })
+
+  it('keeps the connection open, when the recording ends while it is open', () => {
+    const ReplayWebSocket = createReplayWebSocket([
+      { type: 'connect', time: 0, url: 'ws://lab' },
+      { type: 'open', time: 0 }
+    ])
+    const socket = new ReplayWebSocket('ws://replay')
+    jest.advanceTimersByTime(1000)
+    expect(socket.readyState).toBe(ReadyState.OPEN)
+  })
+})
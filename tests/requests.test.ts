@@ -0,0 +1,97 @@
+import { PendingRequests } from '../src/requests'
+
+describe('Testing PendingRequests', () => {
+  let requests: PendingRequests
+
+  beforeEach(() => {
+    requests = new PendingRequests()
+  })
+
+  it('creates unique correlation ids', () => {
+    const first = requests.nextId()
+    const second = requests.nextId()
+    expect(typeof first).toBe('string')
+    expect(first).not.toBe(second)
+  })
+
+  it('resolves a pending request with its reply', async () => {
+    const reply = requests.add('1', 1000)
+    expect(requests.size).toBe(1)
+    expect(requests.resolve({ status: 'reply', id: '1', data: { value: 2 } })).toBe(true)
+    await expect(reply).resolves.toEqual({ status: 'reply', id: '1', data: { value: 2 } })
+    expect(requests.size).toBe(0)
+  })
+
+  it("ignores replies which don't belong to a pending request", () => {
+    expect(requests.resolve({ status: 'reply', id: 'unknown' })).toBe(false)
+  })
+
+  it('rejects a request whose reply contains an error', async () => {
+    const stringError = requests.add('1', 1000)
+    const objectError = requests.add('2', 1000)
+    requests.resolve({ status: 'reply', id: '1', error: 'out of range' })
+    requests.resolve({ status: 'reply', id: '2', error: { code: 3 } })
+    await expect(stringError).rejects.toThrow("The request '1' failed: out of range")
+    await expect(objectError).rejects.toThrow('The request \'2\' failed: {"code":3}')
+    await expect(objectError).rejects.toMatchObject({
+      code: 'PROTOCOL_ERROR',
+      payload: { status: 'reply', id: '2', error: { code: 3 } }
+    })
+  })
+
+  it("rejects a request if the reply doesn't arrive in time", async () => {
+    jest.useFakeTimers()
+    const reply = requests.add('1', 100)
+    jest.advanceTimersByTime(100)
+    jest.useRealTimers()
+    await expect(reply).rejects.toThrow("The request '1' timed out after 100ms.")
+    await expect(reply).rejects.toMatchObject({
+      code: 'TIMEOUT',
+      payload: { id: '1', timeout: 100 }
+    })
+    expect(requests.size).toBe(0)
+  })
+
+  it('rejectAll rejects all pending requests', async () => {
+    const first = requests.add('1', 1000)
+    const second = requests.add('2', 1000)
+    requests.rejectAll('closed')
+    await expect(first).rejects.toThrow('closed')
+    await expect(second).rejects.toThrow('closed')
+    await expect(second).rejects.toMatchObject({ code: 'NOT_CONNECTED' })
+    expect(requests.size).toBe(0)
+  })
+
+  it('rejectSent only rejects requests handed to the websocket', async () => {
+    const sent = requests.add('1', 1000)
+    const queued = requests.add('2', 1000)
+    requests.sent('1')
+    requests.rejectSent('closed')
+    await expect(sent).rejects.toMatchObject({ code: 'NOT_CONNECTED' })
+    expect(requests.size).toBe(1)
+    requests.resolve({ status: 'reply', id: '2' })
+    await expect(queued).resolves.toEqual({ status: 'reply', id: '2' })
+  })
+
+  it('follow settles a replaced request together with its replacement', async () => {
+    const replaced = requests.add('1', 10)
+    const replacement = requests.add('2', 1000)
+    requests.follow('1', '2')
+    expect(requests.size).toBe(1)
+    requests.resolve({ status: 'ack', id: '2' })
+    await expect(replaced).resolves.toEqual({ status: 'ack', id: '2' })
+    await expect(replacement).resolves.toEqual({ status: 'ack', id: '2' })
+
+    const order: string[] = []
+    requests.add('3', 1000).catch(() => order.push('3'))
+    requests.add('4', 1000).catch(() => order.push('4'))
+    requests.follow('3', '4')
+    requests.rejectAll('closed')
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(order).toEqual(['4', '3'])
+
+    const orphan = requests.add('5', 1000)
+    requests.follow('5', undefined)
+    await expect(orphan).rejects.toMatchObject({ code: 'NOT_CONNECTED' })
+  })
+})
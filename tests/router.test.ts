@@ -0,0 +1,75 @@
+import { MessageRouter, WILDCARD } from '../src/router'
+
+interface TestStatusMap {
+  temperature: { celsius: number }
+  laser: { power: number }
+}
+
+describe('Testing MessageRouter', () => {
+  let router: MessageRouter<TestStatusMap>
+  let calls: any[]
+
+  beforeEach(() => {
+    router = new MessageRouter<TestStatusMap>()
+    calls = []
+  })
+
+  it('calls the handlers registered for the status with data and message', () => {
+    router.on('temperature', (data, message) => calls.push([data.celsius, message.status]))
+    router.on('laser', data => calls.push(data.power))
+    expect(router.dispatch({ status: 'temperature', data: { celsius: 21 } })).toBe(true)
+    expect(calls).toEqual([[21, 'temperature']])
+  })
+
+  it('returns false if no handler was called', () => {
+    router.on('laser', data => calls.push(data))
+    expect(router.dispatch({ status: 'temperature', data: { celsius: 21 } })).toBe(false)
+    expect(router.dispatch({ data: 'without status' })).toBe(false)
+    expect(router.dispatch(null as any)).toBe(false)
+    expect(calls).toEqual([])
+  })
+
+  it('removes handlers with off, the returned function or all at once', () => {
+    const first = (data: { power: number }) => calls.push('first')
+    const second = (data: { power: number }) => calls.push('second')
+    router.off('laser', first)
+    router.on('laser', first)
+    const removeSecond = router.on('laser', second)
+    router.off('laser', first)
+    router.dispatch({ status: 'laser', data: { power: 1 } })
+    removeSecond()
+    removeSecond()
+    router.dispatch({ status: 'laser', data: { power: 1 } })
+    router.on('laser', first)
+    router.off('laser')
+    router.dispatch({ status: 'laser', data: { power: 1 } })
+    expect(calls).toEqual(['second'])
+  })
+
+  it('once handlers are only called for the first message', () => {
+    router.once('laser', data => calls.push(data.power))
+    router.dispatch({ status: 'laser', data: { power: 1 } })
+    router.dispatch({ status: 'laser', data: { power: 2 } })
+    expect(calls).toEqual([1])
+  })
+
+  it('wildcard handlers are called for every message', () => {
+    router.on('laser', data => calls.push('laser'))
+    router.on(WILDCARD, (data, message) => calls.push(`wildcard ${message.status}`))
+    router.dispatch({ status: 'laser', data: { power: 1 } })
+    expect(router.dispatch({ status: 'unknown' })).toBe(true)
+    expect(calls).toEqual(['laser', 'wildcard laser', 'wildcard unknown'])
+  })
+
+  it('fallback handlers are called for messages without handler', () => {
+    router.on('laser', data => calls.push('laser'))
+    const removeFallback = router.fallback((data, message) =>
+      calls.push(`fallback ${message.status}`)
+    )
+    router.dispatch({ status: 'laser', data: { power: 1 } })
+    expect(router.dispatch({ status: 'unknown' })).toBe(true)
+    removeFallback()
+    expect(router.dispatch({ status: 'unknown' })).toBe(false)
+    expect(calls).toEqual(['laser', 'fallback unknown'])
+  })
+})
@@ -0,0 +1,173 @@
+import { NotConnectedError } from '../src/errors'
+import { SendPolicyOptions, SendQueue } from '../src/send-queue'
+import { defaultTimers, Timers } from '../src/timers'
+
+interface Message {
+  status: string
+  value: number
+}
+
+describe('Testing SendQueue', () => {
+  let now: number
+  let sent: string[]
+  let merged: string[]
+  let dropped: string[]
+  let buffered: number
+  let queue: SendQueue<Message>
+  const timers: Timers = { ...defaultTimers, now: () => now }
+
+  const getQueue = (options: SendPolicyOptions = {}): SendQueue<Message> =>
+    new SendQueue<Message>(
+      options,
+      {
+        send: ({ status, value }) => {
+          sent.push(`${status} ${value}`)
+        },
+        bufferedAmount: () => buffered,
+        merged: ({ status, value }, replacement) =>
+          merged.push(`${status} ${value} by ${replacement.value}`),
+        dropped: ({ status, value }) => dropped.push(`${status} ${value}`)
+      },
+      timers
+    )
+
+  // the injected clock is moved along with the fake timers
+  const advance = (ms: number) => {
+    for (let i = 0; i < ms; i++) {
+      now++
+      jest.advanceTimersByTime(1)
+    }
+  }
+
+  beforeEach(() => {
+    now = 1000
+    sent = []
+    merged = []
+    dropped = []
+    buffered = 0
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    queue.clear('done')
+    jest.useRealTimers()
+  })
+
+  it('sends right away without a policy and resolves the promise', async () => {
+    queue = getQueue()
+    const first = queue.push({ status: 'laser', value: 1 })
+    queue.push({ status: 'laser', value: 2 })
+    expect(sent).toEqual(['laser 1', 'laser 2'])
+    expect(queue.size).toBe(0)
+    await expect(first).resolves.toBeUndefined()
+  })
+
+  it('throttles a status and coalesces to the latest value', async () => {
+    queue = getQueue({ policies: { slider: { throttle: 100, coalesce: true } } })
+    queue.push({ status: 'slider', value: 1 })
+    const second = queue.push({ status: 'slider', value: 2 })
+    const third = queue.push({ status: 'slider', value: 3 })
+    queue.push({ status: 'laser', value: 1 })
+    expect(sent).toEqual(['slider 1', 'laser 1'])
+    expect(merged).toEqual(['slider 2 by 3'])
+    expect(queue.size).toBe(1)
+    advance(99)
+    expect(sent.length).toBe(2)
+    advance(1)
+    expect(sent).toEqual(['slider 1', 'laser 1', 'slider 3'])
+    // the promise of a replaced message resolves with the one of its replacement
+    await expect(second).resolves.toBeUndefined()
+    await expect(third).resolves.toBeUndefined()
+  })
+
+  it('keeps all throttled messages in order without coalesce', () => {
+    queue = getQueue({ policies: { slider: { throttle: 100 } } })
+    queue.push({ status: 'slider', value: 1 })
+    queue.push({ status: 'slider', value: 2 })
+    queue.push({ status: 'slider', value: 3 })
+    advance(200)
+    expect(sent).toEqual(['slider 1', 'slider 2', 'slider 3'])
+    expect(merged).toEqual([])
+  })
+
+  it('debounces a status until it was quiet for the given time', () => {
+    queue = getQueue({ policies: { search: { debounce: 50 } } })
+    queue.push({ status: 'search', value: 1 })
+    advance(30)
+    queue.push({ status: 'search', value: 2 })
+    advance(49)
+    expect(sent).toEqual([])
+    advance(1)
+    expect(sent).toEqual(['search 2'])
+    expect(merged).toEqual(['search 1 by 2'])
+  })
+
+  it('limits the messages per second of all statuses', () => {
+    queue = getQueue({ maxMessagesPerSecond: 2 })
+    queue.push({ status: 'a', value: 1 })
+    advance(10)
+    queue.push({ status: 'b', value: 2 })
+    queue.push({ status: 'a', value: 3 })
+    queue.push({ status: 'b', value: 4 })
+    expect(sent).toEqual(['a 1', 'b 2'])
+    advance(989)
+    expect(sent.length).toBe(2)
+    advance(1)
+    expect(sent).toEqual(['a 1', 'b 2', 'a 3'])
+    advance(10)
+    expect(sent).toEqual(['a 1', 'b 2', 'a 3', 'b 4'])
+  })
+
+  it('pauses while the buffered amount is above the high-water mark', () => {
+    queue = getQueue({ highWaterMark: 100, drainInterval: 20 })
+    buffered = 101
+    queue.push({ status: 'a', value: 1 })
+    advance(40)
+    expect(sent).toEqual([])
+    buffered = 100
+    advance(19)
+    expect(sent).toEqual([])
+    advance(1)
+    expect(sent).toEqual(['a 1'])
+  })
+
+  it('drops the waiting messages on clear and rejects their promises', async () => {
+    queue = getQueue({ policies: { slider: { throttle: 100, coalesce: true } } })
+    queue.push({ status: 'slider', value: 1 })
+    const replaced = queue.push({ status: 'slider', value: 2 })
+    const waiting = queue.push({ status: 'slider', value: 3 })
+    queue.clear('The websocket was closed.')
+    await expect(replaced).rejects.toThrow(NotConnectedError)
+    await expect(waiting).rejects.toThrow('The websocket was closed.')
+    expect(dropped).toEqual(['slider 3'])
+    advance(200)
+    expect(sent).toEqual(['slider 1'])
+  })
+
+  it('discards the matching waiting messages and sends the others', async () => {
+    queue = getQueue({ policies: { slider: { throttle: 100 } } })
+    queue.push({ status: 'slider', value: 1 })
+    const discarded = queue.push({ status: 'slider', value: 2 })
+    queue.push({ status: 'slider', value: 3 })
+    queue.discard(({ value }) => value === 2, 'The request timed out.')
+    await expect(discarded).rejects.toThrow('The request timed out.')
+    expect(dropped).toEqual(['slider 2'])
+    advance(100)
+    expect(sent).toEqual(['slider 1', 'slider 3'])
+  })
+
+  it('rejects the promise of a message which failed to be sent', async () => {
+    queue = new SendQueue<Message>(
+      {},
+      {
+        send: () => {
+          throw new Error('send failed')
+        },
+        bufferedAmount: () => 0,
+        merged: () => undefined,
+        dropped: () => undefined
+      }
+    )
+    await expect(queue.push({ status: 'a', value: 1 })).rejects.toThrow('send failed')
+  })
+})
@@ -0,0 +1,45 @@
+import { Session } from '../src/session'
+
+describe('Testing Session', () => {
+  it('uses the default fields and statuses', () => {
+    const session = new Session({})
+    expect(session.settings).toEqual({
+      seqField: 'seq',
+      resumeStatus: 'resume',
+      resumeFailedStatus: 'resume_failed'
+    })
+  })
+
+  it('has nothing to resume before a numbered message was received', () => {
+    const session = new Session({ resumeStatus: 'session_resume' })
+    expect(session.lastSequence).toBeNull()
+    expect(session.resumeMessage()).toBeNull()
+    session.track(3)
+    expect(session.resumeMessage()).toEqual({ status: 'session_resume', data: { lastSeq: 3 } })
+  })
+
+  it('reads the sequence number from the configured field', () => {
+    const session = new Session({ seqField: 'n' })
+    expect(session.sequenceOf({ status: 'a', n: 7 })).toBe(7)
+    expect(session.sequenceOf({ status: 'a', seq: 7 })).toBeNull()
+    expect(session.sequenceOf({ status: 'a', n: '7' })).toBeNull()
+  })
+
+  it('detects gaps and duplicates', () => {
+    const session = new Session({})
+    expect(session.track(5)).toBe('next')
+    expect(session.track(6)).toBe('next')
+    expect(session.track(6)).toBe('duplicate')
+    expect(session.track(4)).toBe('duplicate')
+    expect(session.track(9)).toBe('gap')
+    expect(session.lastSequence).toBe(9)
+  })
+
+  it('takes any number after a reset', () => {
+    const session = new Session({})
+    session.track(5)
+    session.reset()
+    expect(session.lastSequence).toBeNull()
+    expect(session.track(2)).toBe('next')
+  })
+})
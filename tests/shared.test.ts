@@ -0,0 +1,280 @@
+import { BroadcastChannelLike, createGlobalBroadcastChannel, SharedConnection } from '../src/shared'
+import { ReadyState, WebSocketLike } from '../src/websocket-like'
+
+class FakeBroadcastChannel implements BroadcastChannelLike {
+  static channels: FakeBroadcastChannel[] = []
+  public onmessage: ((event: MessageEvent) => any) | null = null
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.channels.push(this)
+  }
+
+  postMessage(message: any): void {
+    if (FakeBroadcastChannel.channels.indexOf(this) === -1) {
+      return
+    }
+    FakeBroadcastChannel.channels
+      .filter(channel => channel !== this && channel.name === this.name)
+      .forEach(channel => {
+        setTimeout(() => {
+          if (channel.onmessage) {
+            channel.onmessage({ data: message } as MessageEvent)
+          }
+        }, 0)
+      })
+  }
+
+  close(): void {
+    FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter(c => c !== this)
+  }
+}
+
+class FakeWebSocket implements WebSocketLike {
+  static instances: FakeWebSocket[] = []
+  public binaryType: string = 'blob'
+  public readyState: number = ReadyState.CONNECTING
+  public onopen: ((event: any) => any) | null = null
+  public onclose: ((event: any) => any) | null = null
+  public onmessage: ((event: any) => any) | null = null
+  public onerror: ((event: any) => any) | null = null
+  public sent: (string | ArrayBuffer)[] = []
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this)
+  }
+
+  open(): void {
+    this.readyState = ReadyState.OPEN
+    this.onopen!({ type: 'open' })
+  }
+
+  receive(data: string): void {
+    this.onmessage!({ type: 'message', data })
+  }
+
+  send(data: string | ArrayBuffer): void {
+    this.sent.push(data)
+  }
+
+  close(code?: number, reason?: string): void {
+    this.readyState = ReadyState.CLOSED
+    if (this.onclose) {
+      this.onclose({ type: 'close', code, reason })
+    }
+  }
+}
+
+interface Tab {
+  shared: SharedConnection
+  socket: WebSocketLike
+  events: string[]
+}
+
+describe('Testing SharedConnection', () => {
+  const options = {
+    broadcastChannel: (name: string) => new FakeBroadcastChannel(name),
+    announceInterval: 100,
+    leaderTimeout: 300
+  }
+
+  const connect = (tab: Tab): WebSocketLike => {
+    tab.socket = tab.shared.createSocket(FakeWebSocket, 'ws://lab', [])
+    // like LabGuiWebsocket, which reports the connection as opened without authentication
+    tab.socket.onopen = () => {
+      tab.events.push('open')
+      tab.shared.opened()
+    }
+    tab.socket.onmessage = event => tab.events.push(`message ${event.data}`)
+    tab.socket.onclose = event => tab.events.push(`close ${event.code}`)
+    return tab.socket
+  }
+
+  let tabs: Tab[]
+
+  const openTab = (): Tab => {
+    const tab = { shared: new SharedConnection(options), events: [] } as any
+    connect(tab)
+    tabs.push(tab)
+    return tab
+  }
+
+  beforeEach(() => {
+    FakeBroadcastChannel.channels = []
+    FakeWebSocket.instances = []
+    tabs = []
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    tabs.forEach(tab => tab.shared.resign())
+    jest.clearAllTimers()
+    jest.useRealTimers()
+  })
+
+  it('the first tab takes the lead and the following tabs use its websocket', () => {
+    const leader = openTab()
+    jest.advanceTimersByTime(99)
+    expect(FakeWebSocket.instances.length).toBe(0)
+    jest.advanceTimersByTime(1)
+    expect(leader.shared.isLeader).toBe(true)
+    expect(FakeWebSocket.instances.length).toBe(1)
+    const ws = FakeWebSocket.instances[0]
+    expect(ws.binaryType).toBe('blob')
+    leader.socket.binaryType = 'arraybuffer'
+    expect(ws.binaryType).toBe('arraybuffer')
+    ws.open()
+
+    const follower = openTab()
+    jest.advanceTimersByTime(10)
+    expect(follower.shared.isLeader).toBe(false)
+    expect(follower.events).toEqual(['open'])
+    expect(follower.socket.readyState).toBe(ReadyState.OPEN)
+
+    follower.socket.send('from follower')
+    leader.socket.send('from leader')
+    jest.advanceTimersByTime(10)
+    expect(ws.sent).toEqual(['from leader', 'from follower'])
+
+    ws.receive('update')
+    jest.advanceTimersByTime(10)
+    expect(leader.events).toEqual(['open', 'message update'])
+    expect(follower.events).toEqual(['open', 'message update'])
+
+    // the leader keeps announcing itself, so the follower doesn't take over
+    jest.advanceTimersByTime(1000)
+    expect(follower.shared.isLeader).toBe(false)
+    expect(FakeWebSocket.instances.length).toBe(1)
+  })
+
+  it('followers notice when the websocket of the leader closes', () => {
+    const leader = openTab()
+    jest.advanceTimersByTime(100)
+    FakeWebSocket.instances[0].open()
+    const follower = openTab()
+    jest.advanceTimersByTime(10)
+    FakeWebSocket.instances[0].close(1006)
+    jest.advanceTimersByTime(10)
+    expect(leader.events).toEqual(['open', 'close 1006'])
+    expect(follower.events).toEqual(['open', 'close 1006'])
+
+    // the leader reconnects, the follower waits for it
+    connect(follower)
+    connect(leader)
+    expect(FakeWebSocket.instances.length).toBe(2)
+    FakeWebSocket.instances[1].open()
+    jest.advanceTimersByTime(10)
+    expect(follower.events).toEqual(['open', 'close 1006', 'open'])
+
+    // a reconnecting follower gets the open state of the leader right away
+    follower.socket.onclose = null
+    follower.socket.close()
+    connect(follower)
+    jest.advanceTimersByTime(1)
+    expect(follower.events).toEqual(['open', 'close 1006', 'open', 'open'])
+  })
+
+  it('a follower takes over, when the leader resigns', () => {
+    const leader = openTab()
+    jest.advanceTimersByTime(100)
+    FakeWebSocket.instances[0].open()
+    const follower = openTab()
+    jest.advanceTimersByTime(10)
+
+    leader.shared.resign()
+    leader.shared.resign()
+    leader.socket.close()
+    jest.advanceTimersByTime(10)
+    expect(follower.shared.isLeader).toBe(true)
+    expect(follower.events).toEqual(['open', 'close 4001'])
+
+    connect(follower)
+    expect(FakeWebSocket.instances.length).toBe(2)
+    FakeWebSocket.instances[1].open()
+    expect(follower.events).toEqual(['open', 'close 4001', 'open'])
+    expect(leader.events).toEqual(['open', 'close undefined'])
+  })
+
+  it('a follower takes over, when the leader stops announcing itself', () => {
+    const leader = openTab()
+    jest.advanceTimersByTime(100)
+    const follower = openTab()
+    jest.advanceTimersByTime(10)
+    // the tab of the leader crashed without resigning
+    FakeBroadcastChannel.channels[0].close()
+    // the last announcement was the answer to the hello of the follower
+    jest.advanceTimersByTime(289)
+    expect(follower.shared.isLeader).toBe(false)
+    jest.advanceTimersByTime(1)
+    expect(follower.shared.isLeader).toBe(true)
+    // the websocket was still connecting, so it is opened right away
+    expect(FakeWebSocket.instances.length).toBe(2)
+    FakeWebSocket.instances[1].open()
+    expect(follower.events).toEqual(['open'])
+    expect(leader.shared.isLeader).toBe(true)
+  })
+
+  it('the tab with the lower id wins a contested election', () => {
+    const spyRandom = jest.spyOn(Math, 'random')
+    spyRandom.mockReturnValueOnce(0.1)
+    const first = openTab()
+    spyRandom.mockReturnValueOnce(0.2)
+    const second = openTab()
+    spyRandom.mockRestore()
+    // both tabs started at once and took the lead
+    jest.advanceTimersByTime(100)
+    expect(FakeWebSocket.instances.length).toBe(2)
+    jest.advanceTimersByTime(10)
+    expect(first.shared.isLeader).toBe(true)
+    expect(second.shared.isLeader).toBe(false)
+    expect(FakeWebSocket.instances[1].onopen).toBeNull()
+    expect(FakeWebSocket.instances[1].readyState).toBe(ReadyState.CLOSED)
+    expect(second.events).toEqual(['close 4001'])
+
+    FakeWebSocket.instances[0].open()
+    connect(second)
+    jest.advanceTimersByTime(10)
+    expect(second.events).toEqual(['close 4001', 'open'])
+    expect(FakeWebSocket.instances.length).toBe(2)
+  })
+
+  it('followers wait until the connection of the leader was opened and close on a nack', () => {
+    const leader = openTab()
+    jest.advanceTimersByTime(100)
+    // e.g. the authentication of the leader is still pending
+    leader.socket.onopen = () => leader.events.push('open')
+    FakeWebSocket.instances[0].open()
+    const follower = openTab()
+    jest.advanceTimersByTime(10)
+    expect(follower.events).toEqual([])
+
+    leader.shared.opened()
+    jest.advanceTimersByTime(10)
+    expect(follower.events).toEqual(['open'])
+
+    // the leader connects again, before the follower noticed
+    connect(leader)
+    follower.socket.send('lost')
+    jest.advanceTimersByTime(10)
+    expect(FakeWebSocket.instances.map(ws => ws.sent)).toEqual([[], []])
+    expect(follower.events).toEqual(['open', 'close 1006'])
+  })
+
+  it('a follower closes its stand-in websocket by itself', () => {
+    const leader = openTab()
+    jest.advanceTimersByTime(100)
+    FakeWebSocket.instances[0].open()
+    const follower = openTab()
+    jest.advanceTimersByTime(10)
+    follower.socket.close(1000, 'done')
+    follower.socket.close()
+    jest.advanceTimersByTime(10)
+    expect(follower.events).toEqual(['open', 'close 1000'])
+    expect(leader.events).toEqual(['open'])
+  })
+
+  it('there is no global BroadcastChannel in jsdom', () => {
+    expect(() => createGlobalBroadcastChannel('lab')).toThrow(
+      'There is no global BroadcastChannel in this environment'
+    )
+  })
+})
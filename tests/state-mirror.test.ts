@@ -0,0 +1,128 @@
+import { StateMirror } from '../src/state-mirror'
+import { ProtocolError } from '../src/errors'
+
+describe('Testing StateMirror', () => {
+  let mirror: StateMirror
+
+  beforeEach(() => {
+    mirror = new StateMirror()
+    mirror.applySnapshot({ laser: { power: 1, shutter: 'closed' }, channels: [1, 2] })
+  })
+
+  it('uses the default statuses and ignores other messages', () => {
+    expect(mirror.settings).toEqual({
+      snapshotStatus: 'control_status',
+      patchStatus: 'control_patch'
+    })
+    expect(mirror.receive({ status: 'other', data: {} })).toBe(false)
+    expect(mirror.receive({ status: 'control_status', data: { a: 1 } })).toBe(true)
+    expect(mirror.get()).toEqual({ a: 1 })
+    mirror.receive({ status: 'control_status' })
+    expect(mirror.get('')).toEqual({})
+  })
+
+  it('reads values with JSON Pointers', () => {
+    mirror.applySnapshot({ 'a/b': { 'c~d': 3 }, list: [{ x: 1 }] })
+    expect(mirror.get('/a~1b/c~0d')).toBe(3)
+    expect(mirror.get('/list/0/x')).toBe(1)
+    expect(mirror.get('/missing/deeper')).toBeUndefined()
+    expect(() => mirror.get('laser')).toThrow("The path 'laser' isn't a JSON Pointer")
+  })
+
+  it('applies patches with add, remove and replace', () => {
+    mirror.receive({
+      status: 'control_patch',
+      data: [
+        { op: 'replace', path: '/laser/power', value: 5 },
+        { op: 'add', path: '/laser/mode', value: 'cw' },
+        { op: 'remove', path: '/laser/shutter' },
+        { op: 'add', path: '/channels/-', value: 3 },
+        { op: 'add', path: '/channels/0', value: 0 },
+        { op: 'remove', path: '/channels/1' },
+        { op: 'replace', path: '/channels/0', value: 9 }
+      ]
+    })
+    expect(mirror.get()).toEqual({ laser: { power: 5, mode: 'cw' }, channels: [9, 2, 3] })
+    mirror.applyPatch([{ op: 'replace', path: '', value: { b: 2 } }])
+    expect(mirror.get()).toEqual({ b: 2 })
+    mirror.applyPatch([{ op: 'remove', path: '' }])
+    expect(mirror.get()).toEqual({})
+  })
+
+  it('rejects invalid patches without changing the state', () => {
+    const state = mirror.get()
+    expect(() => mirror.applyPatch({} as any)).toThrow('A patch needs to be a list of operations.')
+    expect(() =>
+      mirror.applyPatch([
+        { op: 'replace', path: '/laser/power', value: 5 },
+        { op: 'replace', path: '/laser/missing', value: 1 }
+      ])
+    ).toThrow("The patch path '/laser/missing' doesn't exist.")
+    expect(() => mirror.applyPatch([{ op: 'add', path: '/laser/power/x', value: 1 }])).toThrow(
+      "The patch path '/laser/power/x' doesn't exist."
+    )
+    expect(() => mirror.applyPatch([{ op: 'add', path: '/channels/5', value: 1 }])).toThrow(
+      "The patch path '/channels/5' doesn't exist."
+    )
+    expect(() => mirror.applyPatch([{ op: 'remove', path: '/channels/2' }])).toThrow(
+      "The patch path '/channels/2' doesn't exist."
+    )
+    expect(() => mirror.applyPatch([{ op: 'move', path: '/laser/power' } as any])).toThrow(
+      "The patch operation 'move' isn't supported."
+    )
+    expect(() => mirror.applyPatch({} as any)).toThrow(ProtocolError)
+    expect(mirror.get()).toBe(state)
+  })
+
+  it('calls listeners only if their value changed', () => {
+    const calls: string[] = []
+    mirror.subscribe('/laser/power', (value, path) => calls.push(`${path} ${value}`))
+    const unsubscribe = mirror.subscribe('/laser', value => calls.push(`laser ${value.power}`))
+    mirror.subscribe('/channels', value => calls.push(`channels ${value}`))
+
+    mirror.applySnapshot({ laser: { power: 1, shutter: 'closed' }, channels: [1, 2] })
+    expect(calls).toEqual([])
+    mirror.applyPatch([{ op: 'replace', path: '/laser/power', value: 2 }])
+    expect(calls).toEqual(['/laser/power 2', 'laser 2'])
+    unsubscribe()
+    mirror.applySnapshot({ laser: { power: 3 }, channels: [1, 2, 3] })
+    expect(calls).toEqual(['/laser/power 2', 'laser 2', '/laser/power 3', 'channels 1,2,3'])
+    mirror.applySnapshot({ laser: { power: 3 }, channels: { 0: 1, 1: 2, 2: 3 } })
+    expect(calls.length).toBe(5)
+  })
+
+  it('applies optimistic values and restores them unless they changed meanwhile', () => {
+    const revert = mirror.applyOptimistic('/laser', { power: 4, 'mode/x': 'cw' })
+    expect(mirror.get('/laser')).toEqual({ power: 4, shutter: 'closed', 'mode/x': 'cw' })
+    revert()
+    expect(mirror.get('/laser')).toEqual({ power: 1, shutter: 'closed' })
+
+    const revertNewer = mirror.applyOptimistic('', { channels: [3] })
+    mirror.applySnapshot({ laser: { power: 2 }, channels: [4] })
+    revertNewer()
+    expect(mirror.get()).toEqual({ laser: { power: 2 }, channels: [4] })
+  })
+
+  it('creates missing objects along the path of optimistic values', () => {
+    const revert = mirror.applyOptimistic('/stage/axis', { x: 1 })
+    expect(mirror.get('/stage')).toEqual({ axis: { x: 1 } })
+    revert()
+    expect(mirror.get()).toEqual({ laser: { power: 1, shutter: 'closed' }, channels: [1, 2] })
+    expect(() => mirror.applyOptimistic('/laser/power', { x: 1 })).toThrow(ProtocolError)
+  })
+
+  it('is stale until a snapshot arrives', () => {
+    const fresh = new StateMirror({ snapshotStatus: 'state' })
+    const events: boolean[] = []
+    fresh.addEventListener('stalechange', event => events.push(event.stale))
+    expect(fresh.stale).toBe(true)
+    fresh.applyPatch([{ op: 'add', path: '/a', value: 1 }])
+    expect(fresh.stale).toBe(true)
+    fresh.receive({ status: 'state', data: { a: 1 } })
+    expect(fresh.stale).toBe(false)
+    fresh.markStale()
+    fresh.markStale()
+    expect(fresh.stale).toBe(true)
+    expect(events).toEqual([false, true])
+  })
+})
@@ -0,0 +1,120 @@
+import { ConnectionStats, statusOf } from '../src/stats'
+
+describe('Testing ConnectionStats', () => {
+  let spyNow: jest.SpyInstance
+
+  beforeEach(() => {
+    spyNow = jest.spyOn(Date, 'now').mockReturnValue(1000)
+  })
+
+  afterEach(() => {
+    spyNow.mockRestore()
+  })
+
+  it('tracks connects, disconnects and the time spent in each period', () => {
+    const stats = new ConnectionStats()
+    expect(stats.snapshot().disconnectedTime).toBe(0)
+    stats.attempt()
+    spyNow.mockReturnValue(1100)
+    stats.closed(1006)
+    stats.attempt()
+    spyNow.mockReturnValue(1200)
+    stats.opened()
+    spyNow.mockReturnValue(1500)
+    expect(stats.snapshot()).toMatchObject({ connectedTime: 300, disconnectedTime: 200 })
+    stats.closed(4000)
+    stats.closed(undefined)
+    spyNow.mockReturnValue(1600)
+    expect(stats.snapshot()).toMatchObject({
+      connectAttempts: 2,
+      connects: 1,
+      disconnects: 1,
+      closeCodes: { '1006': 1, '4000': 1, unknown: 1 },
+      connectedTime: 300,
+      disconnectedTime: 300
+    })
+  })
+
+  it('counts messages and bytes per status', () => {
+    const stats = new ConnectionStats()
+    stats.received('control_status', 20)
+    stats.received('control_status', 30)
+    stats.received('', 5)
+    stats.parseFailed()
+    stats.sent('laser', 10)
+    const snapshot = stats.snapshot()
+    expect(snapshot.inbound).toEqual({
+      messages: 3,
+      bytes: 55,
+      byStatus: { control_status: { messages: 2, bytes: 50 }, '': { messages: 1, bytes: 5 } }
+    })
+    expect(snapshot.outbound).toEqual({
+      messages: 1,
+      bytes: 10,
+      byStatus: { laser: { messages: 1, bytes: 10 } }
+    })
+    expect(snapshot.parseFailures).toBe(1)
+    // snapshots are copies
+    snapshot.inbound.byStatus.control_status.messages = 0
+    expect(stats.snapshot().inbound.byStatus.control_status.messages).toBe(2)
+  })
+
+  it('counts merged and dropped messages per status', () => {
+    const stats = new ConnectionStats()
+    stats.merged('slider')
+    stats.merged('slider')
+    stats.dropped('slider')
+    stats.dropped('laser')
+    const snapshot = stats.snapshot()
+    expect(snapshot.merged).toEqual({ messages: 2, byStatus: { slider: 2 } })
+    expect(snapshot.dropped).toEqual({ messages: 2, byStatus: { slider: 1, laser: 1 } })
+  })
+
+  it('collects the latencies in a histogram', () => {
+    const stats = new ConnectionStats({ latencyBuckets: [10, 100] })
+    expect(stats.snapshot().latency).toBeNull()
+    stats.latency(5)
+    stats.latency(10)
+    stats.latency(60)
+    stats.latency(1000)
+    expect(stats.snapshot().latency).toEqual({
+      count: 4,
+      min: 5,
+      max: 1000,
+      mean: 268.75,
+      buckets: { '10': 2, '100': 1, '+Inf': 1 }
+    })
+  })
+
+  it('calls the callback periodically until it is stopped', () => {
+    jest.useFakeTimers()
+    const snapshots: number[] = []
+    const stats = new ConnectionStats({ interval: 100 })
+    stats.start(snapshot => snapshots.push(snapshot.connectAttempts))
+    stats.start(snapshot => snapshots.push(-1))
+    jest.advanceTimersByTime(100)
+    stats.attempt()
+    jest.advanceTimersByTime(100)
+    stats.stop()
+    stats.stop()
+    jest.advanceTimersByTime(100)
+    jest.useRealTimers()
+    expect(snapshots).toEqual([0, 1])
+  })
+
+  it('is not periodic by default', () => {
+    jest.useFakeTimers()
+    const callback = jest.fn()
+    new ConnectionStats().start(callback)
+    jest.advanceTimersByTime(100000)
+    jest.useRealTimers()
+    expect(callback).not.toHaveBeenCalled()
+  })
+
+  it('statusOf returns the status of message objects only', () => {
+    expect(statusOf({ status: 'laser' })).toBe('laser')
+    expect(statusOf({ status: 1 })).toBe('')
+    expect(statusOf('{"status": "laser"}')).toBe('')
+    expect(statusOf(null)).toBe('')
+  })
+})
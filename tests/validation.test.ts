@@ -0,0 +1,98 @@
+import { MessageValidators, validateSchema, ValidationError } from '../src/validation'
+
+describe('Testing validation', () => {
+  describe('validateSchema', () => {
+    it('checks types', () => {
+      expect(validateSchema({ type: 'number' }, 1)).toEqual([])
+      expect(validateSchema({ type: 'number' }, 1.5)).toEqual([])
+      expect(validateSchema({ type: 'integer' }, 1.5)).toEqual(['data should be of type integer'])
+      expect(validateSchema({ type: ['string', 'null'] }, null)).toEqual([])
+      expect(validateSchema({ type: 'object' }, [])).toEqual(['data should be of type object'])
+      expect(validateSchema({ type: 'boolean' }, undefined)).toEqual([
+        'data should be of type boolean'
+      ])
+    })
+
+    it('checks values, lengths and ranges', () => {
+      expect(validateSchema({ enum: ['on', 'off'] }, 'dim')).toEqual([
+        'data should be one of ["on","off"]'
+      ])
+      expect(validateSchema({ const: 3 }, 4)).toEqual(['data should be 3'])
+      expect(validateSchema({ minimum: 0, maximum: 10 }, -1)).toEqual(['data should be >= 0'])
+      expect(validateSchema({ minimum: 0, maximum: 10 }, 11)).toEqual(['data should be <= 10'])
+      expect(validateSchema({ minLength: 2, maxLength: 3 }, 'a')).toEqual([
+        'data should have at least 2 characters'
+      ])
+      expect(validateSchema({ minLength: 2, maxLength: 3 }, 'abcd')).toEqual([
+        'data should have at most 3 characters'
+      ])
+      expect(validateSchema({ pattern: '^ch[0-9]$' }, 'chX')).toEqual([
+        'data should match ^ch[0-9]$'
+      ])
+      expect(validateSchema({ minItems: 1, maxItems: 2 }, [])).toEqual([
+        'data should have at least 1 items'
+      ])
+      expect(validateSchema({ minItems: 1, maxItems: 2 }, [1, 2, 3])).toEqual([
+        'data should have at most 2 items'
+      ])
+    })
+
+    it('checks nested objects and arrays', () => {
+      const schema = {
+        type: 'object' as 'object',
+        required: ['power', 'mode'],
+        properties: {
+          power: { type: 'number' as 'number', maximum: 100 },
+          channels: { type: 'array' as 'array', items: { type: 'integer' as 'integer' } }
+        },
+        additionalProperties: false
+      }
+      expect(validateSchema(schema, { power: 1, mode: 'cw', channels: [1, 2] })).toEqual([
+        'data.mode is not allowed'
+      ])
+      expect(validateSchema(schema, { power: 200, channels: [1, 'a'] })).toEqual([
+        'data.mode is required',
+        'data.power should be <= 100',
+        'data.channels[1] should be of type integer'
+      ])
+      expect(
+        validateSchema({ type: 'object', additionalProperties: { type: 'string' } }, { a: 1 })
+      ).toEqual(['data.a should be of type string'])
+    })
+  })
+
+  describe('MessageValidators', () => {
+    it('validates the data of messages with the validators of their status', () => {
+      const validators = new MessageValidators()
+      validators.add('laser', { type: 'object', required: ['power'] })
+      validators.add('laser', data => data.power > 0 || 'power must be positive', 'outbound')
+      validators.add('temperature', () => false, 'inbound')
+
+      expect(validators.validate('inbound', { status: 'laser', data: { power: 0 } })).toBeNull()
+      const error = validators.validate('outbound', { status: 'laser', data: {} })
+      expect(error).toBeInstanceOf(ValidationError)
+      expect(error!.direction).toBe('outbound')
+      expect(error!.status).toBe('laser')
+      expect(error!.errors).toEqual(['data.power is required', 'power must be positive'])
+      expect(error!.message).toBe(
+        "The outbound message with status 'laser' is invalid: " +
+          'data.power is required, power must be positive'
+      )
+      expect(validators.validate('inbound', { status: 'temperature' })!.errors).toEqual([
+        'data was rejected by the validator'
+      ])
+      expect(validators.validate('outbound', { status: 'temperature' })).toBeNull()
+      expect(validators.validate('inbound', { status: 'other' })).toBeNull()
+    })
+
+    it('reports validators which throw and can remove validators', () => {
+      const validators = new MessageValidators()
+      const remove = validators.add('laser', (data: any) => data.power.value > 0)
+      expect(validators.validate('inbound', { status: 'laser', data: {} })!.errors[0]).toMatch(
+        /^the validator threw: /
+      )
+      remove()
+      expect(validators.validate('inbound', { status: 'laser', data: {} })).toBeNull()
+    })
+  })
+})